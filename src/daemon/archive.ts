@@ -0,0 +1,373 @@
+import fse = require('fs-extra');
+import pathLib = require('path');
+import zlib = require('zlib');
+import nodeStream = require('stream');
+import child_process = require('child_process');
+import tar = require('tar');
+const yauzl = require('yauzl');
+const unbzip2 = require('unbzip2-stream');
+
+import { ArchiveLimits } from './interfaces';
+
+enum EntryType {
+    File = 1,
+    Directory = 2,
+    SymbolicLink = 3,
+    Other = 4
+}
+
+// Writes the entries of an archive into the destination, checking them against the limits
+// while they are being written, so that extraction stops as soon as one of them is violated.
+class ArchiveExtraction {
+    private entryCount = 0;
+    private totalSize = 0;
+    private fileSizes = new Map<string, number>();
+    private abortError: Error = null;
+    private pendingWrites = new Set<(err: Error) => void>();
+
+    constructor(readonly destination: string, private limits: ArchiveLimits) {
+    }
+
+    // Returns the normalized path of the entry, relative to the root of the archive.
+    addEntry(name: string, type: EntryType, declaredSize: number): string {
+        const path = normalizeEntryPath(name);
+        if (path === '' && type !== EntryType.Directory) {
+            throw new Error(`${name} is not a valid file name.`);
+        } else if (type === EntryType.SymbolicLink) {
+            throw new Error(`${name} is a symbolic link, which is not allowed.`);
+        } else if (type === EntryType.Other) {
+            throw new Error(`${name} is not a regular file or a directory.`);
+        }
+        if (++this.entryCount > this.limits.entries) {
+            throw new Error(`The archive contains more than ${this.limits.entries} entries.`);
+        }
+        if (type === EntryType.File) {
+            this.fileSizes.set(path, 0);
+            // The declared size may be wrong, so the actual size is checked as well.
+            this.checkSize(path, declaredSize || 0, this.totalSize + (declaredSize || 0));
+        }
+        return path;
+    }
+
+    addData(path: string, length: number) {
+        this.fileSizes.set(path, this.fileSizes.get(path) + length);
+        this.totalSize += length;
+        this.checkSize(path, this.fileSizes.get(path), this.totalSize);
+    }
+
+    // Writes the content of a file entry added before. Fails as soon as a limit is violated,
+    // in which case the rest of the content is not consumed. Settles only after the file is closed.
+    async writeFile(path: string, content: nodeStream.Readable): Promise<void> {
+        const filePath = pathLib.join(this.destination, path);
+        await fse.mkdirs(pathLib.dirname(filePath));
+        if (this.abortError != null) {
+            throw this.abortError;
+        }
+        await new Promise<void>((res, rej) => {
+            const file = fse.createWriteStream(filePath);
+            let failure: Error = null;
+            const fail = (err: Error) => {
+                if (failure == null) {
+                    failure = err;
+                    content.removeAllListeners('data');
+                    file.end();
+                }
+            };
+            this.pendingWrites.add(fail);
+            // Some streams start flowing, and may even end, as soon as there is a listener of 'data'.
+            content.on('error', fail);
+            content.on('end', () => file.end());
+            content.on('data', (chunk: Buffer) => {
+                try {
+                    this.addData(path, chunk.length);
+                } catch (e) {
+                    return fail(e);
+                }
+                if (!file.write(chunk)) {
+                    content.pause();
+                    file.once('drain', () => content.resume());
+                }
+            });
+            file.on('error', fail);
+            file.on('close', () => {
+                this.pendingWrites.delete(fail);
+                if (failure == null) {
+                    res();
+                } else {
+                    rej(failure);
+                }
+            });
+        });
+    }
+
+    // Fails the pending writes and those started later, so that nothing more is written.
+    abort(err: Error) {
+        this.abortError = err;
+        for (const fail of Array.from(this.pendingWrites)) {
+            fail(err);
+        }
+    }
+
+    get filePaths(): string[] {
+        return Array.from(this.fileSizes.keys());
+    }
+
+    private checkSize(path: string, fileSize: number, totalSize: number) {
+        if (fileSize > this.limits.fileSize) {
+            throw new Error(`${path} is larger than ${this.limits.fileSize} bytes.`);
+        } else if (totalSize > this.limits.totalSize) {
+            throw new Error(`The total size of the files in the archive exceeds ${this.limits.totalSize} bytes.`);
+        }
+    }
+}
+
+function normalizeEntryPath(name: string): string {
+    const path = name.replace(/\\/g, '/');
+    if (path.startsWith('/') || /^[a-zA-Z]:/.test(path)) {
+        throw new Error(`${name} is an absolute path, which is not allowed.`);
+    }
+    const parts = path.split('/').filter(part => part !== '' && part !== '.');
+    if (parts.includes('..')) {
+        throw new Error(`${name} contains "..", which is not allowed.`);
+    }
+    return parts.join('/');
+}
+
+function execFile(file: string, args: string[], options: child_process.ExecFileOptions = {}): Promise<string> {
+    return new Promise<string>((res, rej) => {
+        child_process.execFile(file, args, Object.assign({ encoding: 'utf8' as BufferEncoding }, options), (err, stdout) => {
+            if (err) {
+                rej(err);
+            } else {
+                res(stdout);
+            }
+        });
+    });
+}
+
+function readZip(content: Buffer, extraction: ArchiveExtraction): Promise<void> {
+    return new Promise<void>((res, rej) => {
+        yauzl.fromBuffer(content, { lazyEntries: true }, (err, zipFile) => {
+            if (err) {
+                return rej(err);
+            }
+            let failed = false, writing = Promise.resolve();
+            const fail = (err: Error) => {
+                if (!failed) {
+                    failed = true;
+                    zipFile.close();
+                    extraction.abort(err);
+                    writing.then(() => rej(err));
+                }
+            };
+            zipFile.on('error', fail);
+            zipFile.on('end', () => res());
+            zipFile.on('entry', entry => {
+                const mode = entry.externalFileAttributes >>> 16;
+                let type = entry.fileName.endsWith('/') ? EntryType.Directory : EntryType.File;
+                if ((mode & 0o170000) === 0o120000) {
+                    type = EntryType.SymbolicLink;
+                }
+
+                let path: string;
+                try {
+                    path = extraction.addEntry(entry.fileName, type, entry.uncompressedSize);
+                } catch (e) {
+                    return fail(e);
+                }
+                if (type === EntryType.Directory) {
+                    return zipFile.readEntry();
+                }
+
+                zipFile.openReadStream(entry, (err, stream) => {
+                    if (err) {
+                        return fail(err);
+                    }
+                    // Entries are extracted one by one.
+                    writing = extraction.writeFile(path, stream).then(() => zipFile.readEntry(), err => {
+                        stream.destroy();
+                        fail(err);
+                    });
+                });
+            });
+            zipFile.readEntry();
+        });
+    });
+}
+
+const tarEntryTypes: { [type: string]: EntryType } = {
+    'File': EntryType.File,
+    'OldFile': EntryType.File,
+    'ContiguousFile': EntryType.File,
+    'Directory': EntryType.Directory,
+    'SymbolicLink': EntryType.SymbolicLink,
+    'Link': EntryType.SymbolicLink
+};
+
+// `decompressor`, if any, is stopped as soon as a limit is violated.
+function readTar(content: Buffer, decompressor: nodeStream.Duplex, extraction: ArchiveExtraction): Promise<void> {
+    return new Promise<void>((res, rej) => {
+        const parser = new tar.Parse({ strict: true });
+        const writes: Promise<void>[] = [];
+        let failed = false;
+        const fail = (err: Error) => {
+            if (!failed) {
+                failed = true;
+                if (decompressor) {
+                    // Nothing is decompressed any more, as the output is not consumed.
+                    decompressor.unpipe(parser);
+                }
+                extraction.abort(err);
+                Promise.all(writes).then(() => rej(err));
+            }
+        };
+
+        parser.on('entry', entry => {
+            if (failed) {
+                return entry.resume();
+            }
+            let path: string;
+            const type = tarEntryTypes[entry.type] || EntryType.Other;
+            try {
+                path = extraction.addEntry(entry.path, type, entry.size);
+            } catch (e) {
+                entry.resume();
+                return fail(e);
+            }
+            if (type === EntryType.Directory) {
+                return entry.resume();
+            }
+            writes.push(extraction.writeFile(path, entry).catch(err => {
+                entry.resume();
+                fail(err);
+            }));
+        });
+        parser.on('error', fail);
+        parser.on('end', () => {
+            Promise.all(writes).then(() => {
+                if (!failed) {
+                    res();
+                }
+            });
+        });
+
+        if (decompressor) {
+            decompressor.on('error', fail);
+            decompressor.pipe(parser);
+            decompressor.end(content);
+        } else {
+            parser.end(content);
+        }
+    });
+}
+
+// Checks the files extracted by other programs, by actually walking the directory.
+async function checkExtractedFiles(path: string, prefix: string, extraction: ArchiveExtraction): Promise<void> {
+    for (const fileName of await fse.readdir(path)) {
+        const filePath = pathLib.join(path, fileName);
+        const stat = await fse.lstat(filePath);
+        const type = stat.isSymbolicLink() ? EntryType.SymbolicLink
+            : stat.isDirectory() ? EntryType.Directory
+            : stat.isFile() ? EntryType.File : EntryType.Other;
+        const entryPath = extraction.addEntry(prefix + fileName, type, 0);
+        if (type === EntryType.Directory) {
+            await checkExtractedFiles(filePath, prefix + fileName + '/', extraction);
+        } else {
+            extraction.addData(entryPath, stat.size);
+        }
+    }
+}
+
+// Each run of `7z` is killed after this long, in ms, as a crafted archive may keep it busy.
+const sevenZipTimeout = 60 * 1000;
+
+async function run7z(args: string[], options: child_process.ExecFileOptions = {}): Promise<string> {
+    const startTime = Date.now();
+    try {
+        return await execFile('7z', args, Object.assign({ timeout: sevenZipTimeout }, options));
+    } catch (err) {
+        if (err.code === 'ENOENT') {
+            throw new Error("7z archives are not supported by this judge.");
+        } else if (err.killed && Date.now() - startTime >= sevenZipTimeout) {
+            throw new Error("The 7z archive took too long to extract.");
+        }
+        throw err;
+    }
+}
+
+// 7z archives are handled by the `7z` command (from p7zip), as no library is available.
+// The command must be installed on the machine of the daemon, or 7z archives are rejected.
+// Entries are checked in the listing of the archive before extracting, so that most violations
+// are found without writing anything, and the extracted files are checked again after that.
+async function extract7z(content: Buffer, limits: ArchiveLimits, destination: string): Promise<string[]> {
+    const archivePath = destination + '.7z';
+    await fse.writeFile(archivePath, content);
+    try {
+        const listing = await run7z(['l', '-slt', archivePath], { maxBuffer: 64 * 1024 * 1024 });
+
+        const listed = new ArchiveExtraction(destination, limits);
+        // Each entry is a block of `key = value` lines after the dashes.
+        const dashes = listing.indexOf('\n----------\n');
+        const blocks = dashes === -1 ? [] : listing.substr(dashes + 12).split(/\n\s*\n/);
+        for (const block of blocks) {
+            const properties = new Map<string, string>();
+            for (const line of block.split('\n')) {
+                const separator = line.indexOf(' = ');
+                if (separator !== -1) {
+                    properties.set(line.substr(0, separator).trim(), line.substr(separator + 3));
+                }
+            }
+            if (!properties.has('Path')) {
+                continue;
+            }
+
+            const attributes = properties.get('Attributes') || '';
+            let type = properties.get('Folder') === '+' || attributes.startsWith('D') ? EntryType.Directory : EntryType.File;
+            if (/(^|\s)l[r-][w-]/.test(attributes)) {
+                type = EntryType.SymbolicLink;
+            }
+            const path = listed.addEntry(properties.get('Path'), type, 0);
+            if (type === EntryType.File) {
+                listed.addData(path, Number(properties.get('Size')) || 0);
+            }
+        }
+
+        await run7z(['x', '-y', '-o' + destination, archivePath]);
+        const extracted = new ArchiveExtraction(destination, limits);
+        await checkExtractedFiles(destination, '', extracted);
+        return extracted.filePaths;
+    } finally {
+        await fse.remove(archivePath);
+    }
+}
+
+function startsWith(content: Buffer, signature: number[], offset: number = 0): boolean {
+    return content.length >= offset + signature.length && signature.every((byte, index) => content[offset + index] === byte);
+}
+
+// Extracts a zip, tar (optionally compressed with gzip or bzip2) or 7z archive into `destination`, which must be empty.
+// An error describing the problem is thrown if the archive violates any of the limits,
+// or contains a link or a path outside of the archive, in which case `destination` is emptied.
+// Returns the paths of the extracted files.
+export async function extractArchive(content: Buffer, destination: string, limits: ArchiveLimits): Promise<string[]> {
+    const extraction = new ArchiveExtraction(destination, limits);
+    try {
+        if (startsWith(content, [0x50, 0x4b, 0x03, 0x04]) || startsWith(content, [0x50, 0x4b, 0x05, 0x06])) {
+            await readZip(content, extraction);
+        } else if (startsWith(content, [0x1f, 0x8b])) {
+            await readTar(content, zlib.createGunzip(), extraction);
+        } else if (startsWith(content, [0x42, 0x5a, 0x68])) {
+            await readTar(content, unbzip2(), extraction);
+        } else if (startsWith(content, [0x75, 0x73, 0x74, 0x61, 0x72], 257)) {
+            await readTar(content, null, extraction);
+        } else if (startsWith(content, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) {
+            return await extract7z(content, limits, destination);
+        } else {
+            throw new Error("Unsupported archive format, only zip, tar, tar.gz, tar.bz2 and 7z are supported.");
+        }
+    } catch (err) {
+        await fse.emptyDir(destination);
+        throw err;
+    }
+    return extraction.filePaths;
+}
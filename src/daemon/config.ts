@@ -2,6 +2,7 @@ import commandLineArgs = require('command-line-args');
 import fs = require('fs');
 import winston = require('winston');
 import { configureWinston } from '../winston-common';
+import { LanguageLimitScaling, ArchiveLimits } from './interfaces';
 
 export interface ConfigStructure {
     serverUrl: string;
@@ -18,7 +19,9 @@ export interface ConfigStructure {
         maxMemoryRatio: number;
         maxTime: number;
         maxMemory: number;
-    }
+    },
+    languageLimits: { [language: string]: LanguageLimitScaling };
+    archiveLimits: ArchiveLimits;
 }
 
 const optionDefinitions = [
@@ -32,6 +35,27 @@ function readJSON(path: string): any {
     return JSON.parse(fs.readFileSync(path, 'utf8'));
 }
 
+function parseLanguageLimits(src: any): { [language: string]: LanguageLimitScaling } {
+    const result: { [language: string]: LanguageLimitScaling } = {};
+    for (const language of Object.keys(src)) {
+        result[language] = {
+            timeMultiplier: src[language].TimeMultiplier,
+            timeOverhead: src[language].TimeOverhead,
+            memoryMultiplier: src[language].MemoryMultiplier,
+            memoryOverhead: src[language].MemoryOverhead
+        };
+    }
+    return result;
+}
+
+function parseArchiveLimits(src: any): ArchiveLimits {
+    return {
+        totalSize: src.TotalSize || 256 * 1024 * 1024,
+        entries: src.Entries || 1000,
+        fileSize: src.FileSize || 64 * 1024 * 1024
+    };
+}
+
 const configJSON = readJSON(options["config"]);
 export const globalConfig: ConfigStructure = {
     serverUrl: configJSON.ServerUrl,
@@ -48,7 +72,9 @@ export const globalConfig: ConfigStructure = {
         maxMemoryRatio: configJSON.Diagnostics.MaxMemoryRatio,
         maxTime: configJSON.Diagnostics.MaxTime,
         maxMemory: configJSON.Diagnostics.MaxMemory,
-    }
+    },
+    languageLimits: parseLanguageLimits(configJSON.LanguageLimits || {}),
+    archiveLimits: parseArchiveLimits(configJSON.ArchiveLimits || {})
 }
 
 configureWinston(options.verbose);
@@ -0,0 +1,78 @@
+import _ = require('lodash');
+
+import { FeedbackMode } from './interfaces';
+import { OverallResult, JudgeResult, SubtaskResult, TestcaseResult, TestcaseVisibility, TestcaseResultType, TaskStatus } from '../interfaces';
+import { firstNonAC } from '../judgeResult';
+
+// Removes the details of a testcase that should not be shown.
+function stripTestcaseResult(caseResult: TestcaseResult, visibility: TestcaseVisibility): TestcaseResult {
+    if (visibility === TestcaseVisibility.Sample || caseResult.result == null) {
+        return caseResult;
+    } else if (visibility === TestcaseVisibility.Public) {
+        const details = caseResult.result;
+        return Object.assign({}, caseResult, {
+            result: {
+                type: details.type,
+                time: details.time,
+                memory: details.memory,
+                timeLimit: details.timeLimit,
+                memoryLimit: details.memoryLimit,
+                phases: details.phases,
+                scoringRate: details.scoringRate
+            }
+        });
+    } else {
+        return { status: caseResult.status, errorMessage: caseResult.errorMessage, visibility: visibility };
+    }
+}
+
+// The visibility of each testcase in a subtask, which is the stricter one of
+// the visibility in data.yml and the one required by the feedback mode.
+function getVisibilities(subtask: SubtaskResult, feedback: FeedbackMode): TestcaseVisibility[] {
+    const firstFailure = subtask.cases.findIndex(c =>
+        c.status === TaskStatus.Done && c.result != null && c.result.type !== TestcaseResultType.Accepted);
+    return subtask.cases.map((c, index) => {
+        let required = TestcaseVisibility.Sample;
+        if (feedback === FeedbackMode.ScoreOnly ||
+            (feedback === FeedbackMode.FirstFailurePerSubtask && index !== firstFailure)) {
+            required = TestcaseVisibility.Hidden;
+        }
+        return Math.max(c.visibility || TestcaseVisibility.Sample, required);
+    });
+}
+
+// Hidden testcases are summarized in each subtask, so that the overall verdict is still correct,
+// except when only the score is to be shown.
+function stripSubtaskResult(subtask: SubtaskResult, feedback: FeedbackMode): SubtaskResult {
+    const visibilities = getVisibilities(subtask, feedback);
+    if (visibilities.every(v => v === TestcaseVisibility.Sample)) {
+        return subtask;
+    }
+
+    const result: SubtaskResult = Object.assign({}, subtask, {
+        cases: subtask.cases.map((c, index) => stripTestcaseResult(c, visibilities[index]))
+    });
+    const hiddenDetails = subtask.cases
+        .filter((c, index) => visibilities[index] === TestcaseVisibility.Hidden && c.status === TaskStatus.Done && c.result != null)
+        .map(c => c.result);
+    if (hiddenDetails.length && feedback !== FeedbackMode.ScoreOnly) {
+        result.hidden = {
+            type: firstNonAC(hiddenDetails.map(d => d.type)),
+            time: _.sum(hiddenDetails.map(d => d.time)),
+            memory: _.max(hiddenDetails.map(d => d.memory))
+        };
+    }
+    return result;
+}
+
+// Returns the result to be reported to the frontend, with the details that should not be shown
+// according to the feedback mode and the visibility of each testcase removed.
+export function applyFeedbackMode(result: OverallResult, feedback: FeedbackMode): OverallResult {
+    if (result == null || result.judge == null || result.judge.subtasks == null) {
+        return result;
+    }
+    const judge: JudgeResult = Object.assign({}, result.judge, {
+        subtasks: result.judge.subtasks.map(s => stripSubtaskResult(s, feedback || FeedbackMode.Full))
+    });
+    return Object.assign({}, result, { judge: judge });
+}
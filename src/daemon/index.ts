@@ -6,6 +6,7 @@ import util = require('util');
 import rmq = require('./rmq');
 import remote = require('./remote');
 import { judge } from './judge';
+import { applyFeedbackMode } from './feedback';
 import { JudgeResult, ErrorType, ProgressReportType, OverallResult, SerializedBuffer } from '../interfaces';
 
 (async function () {
@@ -23,7 +24,7 @@ import { JudgeResult, ErrorType, ProgressReportType, OverallResult, SerializedBu
         try {
             await remote.reportProgress({ taskId: task.content.taskId, type: ProgressReportType.Started, progress: null });
             result = await judge(task.content, task.extraData, async (progress) => {
-                await remote.reportProgress({ taskId: task.content.taskId, type: ProgressReportType.Progress, progress: progress });
+                await remote.reportProgress({ taskId: task.content.taskId, type: ProgressReportType.Progress, progress: applyFeedbackMode(progress, task.content.feedback) });
             }, async (progress) => {
                 const data = { taskId: task.content.taskId, type: ProgressReportType.Compiled, progress: progress };
                 await remote.reportProgress(data);
@@ -33,8 +34,11 @@ import { JudgeResult, ErrorType, ProgressReportType, OverallResult, SerializedBu
             winston.warn(`Judge error!!! TaskId: ${task.content.taskId}`, err);
             result = { error: ErrorType.SystemError, systemMessage: `An error occurred.\n${err.toString()}` };
         }
-        const resultReport = { taskId: task.content.taskId, type: ProgressReportType.Finished, progress: result };
+        // Warnings about the test data reveal its layout, so only the full result has them.
+        const { warnings, ...publicResult } = result;
+        const resultReport = { taskId: task.content.taskId, type: ProgressReportType.Finished, progress: applyFeedbackMode(publicResult, task.content.feedback) };
         await remote.reportProgress(resultReport);
         await remote.reportResult(resultReport);
+        await remote.reportFullResult({ taskId: task.content.taskId, type: ProgressReportType.Finished, progress: result });
     });
 })().then(() => { winston.info("Initialization logic completed."); }, (err) => { winston.error(util.inspect(err)); process.exit(1); });
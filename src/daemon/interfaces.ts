@@ -1,10 +1,12 @@
 import { Language } from '../languages';
-import { FileContent, TaskStatus, TestcaseResult } from '../interfaces';
+import { FileContent, TaskStatus, TestcaseResult, TestcaseVisibility, SpecialJudgeProtocol, ComparatorOptions, InteractionConnection } from '../interfaces';
 
 export enum ProblemType {
     Standard = 1,
     AnswerSubmission = 2,
-    Interaction = 3
+    Interaction = 3,
+    Validation = 4, // Validate all inputs of the test data, with no submission
+    MultiPhase = 5 // Run the submission once for each phase in data.yml, with the parameters of Standard
 }
 
 export interface JudgeTaskContent {
@@ -13,6 +15,15 @@ export interface JudgeTaskContent {
     type: ProblemType;
     priority: number;
     param: StandardJudgeParameter | InteractionJudgeParameter;
+    feedback?: FeedbackMode; // Defaults to Full
+}
+
+// How much of the judge result is reported to the frontend.
+// The complete result is always reported to administrators, see `remote.reportFullResult`.
+export enum FeedbackMode {
+    Full = 1, // Each testcase is shown according to its visibility
+    FirstFailurePerSubtask = 2, // Only the first testcase not accepted in each subtask is shown
+    ScoreOnly = 3 // Only the scores of subtasks are shown
 }
 
 export interface JudgeTask {
@@ -39,7 +50,36 @@ export interface InteractionJudgeParameter {
 export enum SubtaskScoringType {
     Summation,
     Minimum,
-    Multiple
+    Multiple,
+    Maximum,
+    GeometricMean
+}
+
+// How a subtask is affected by its prerequisites that do not reach full score.
+export enum DependencyMode {
+    Strict = 1, // The subtask scores zero
+    Minimum = 2 // The score of the subtask is capped at the lowest ratio among its prerequisites
+}
+
+// A limit in data.yml is either absolute (e.g. `2000`) or relative to the problem's limit (e.g. `"1.5x"`).
+export interface LimitOverride {
+    value: number;
+    multiplier: boolean;
+}
+
+// The effective limit is `limit * multiplier + overhead'.
+export interface LanguageLimitScaling {
+    timeMultiplier?: number;
+    timeOverhead?: number; // in milliseconds
+    memoryMultiplier?: number;
+    memoryOverhead?: number; // in MiB
+}
+
+// Limits on the archive of an answer submission, in bytes except `entries`.
+export interface ArchiveLimits {
+    totalSize: number; // Of all files after decompression
+    entries: number; // Including directories
+    fileSize: number;
 }
 
 export interface TestcaseJudge {
@@ -47,12 +87,19 @@ export interface TestcaseJudge {
     output?: string;
     userOutputFile?: string;
     name: string;
+    timeLimit?: LimitOverride;
+    memoryLimit?: LimitOverride;
+    generatorArgs?: string[]; // The input is generated by the generator with these arguments
+    outputGenerated?: boolean; // The answer is produced by the reference solution
+    weight?: number; // Used by `sum` and `gmean` subtasks, defaults to 1
+    visibility?: TestcaseVisibility; // Defaults to Sample
 }
 
 export interface SubtaskJudge {
     type: SubtaskScoringType;
     score: number;
     cases: TestcaseJudge[];
+    dependencies?: number[]; // Indices of prerequisite subtasks
 }
 
 export interface Executable {
@@ -60,12 +107,68 @@ export interface Executable {
     sourceCode: string;
 }
 
+export interface SpecialJudge extends Executable {
+    protocol: SpecialJudgeProtocol;
+}
+
+export interface Validator extends Executable {
+    beforeJudging: boolean; // Validate all inputs before judging each submission
+}
+
+export interface Generator extends Executable {
+    timeLimit?: number;
+    memoryLimit?: number;
+}
+
+export interface ReferenceSolution extends Executable {
+    regenerate: boolean; // Produce all answers with the reference solution, even if the answer files exist
+    timeLimit?: number;
+    memoryLimit?: number;
+}
+
+export interface Interactor extends Executable {
+    // With testlib, the special judge (if any) checks the output of the interactor if the interactor accepts.
+    // Any other verdict of the interactor, including partial points, is final, as in testlib.
+    protocol: SpecialJudgeProtocol;
+    processes: number; // Number of user processes the interactor talks to
+    connection: InteractionConnection;
+    transcript: boolean; // Record the data passed between the programs, to be shown in the result
+    timeLimit?: number; // Defaults to twice the time limit of the user's program
+    memoryLimit?: number; // Defaults to the memory limit of the user's program
+}
+
+export interface Phase {
+    args: string[]; // Arguments passed to the user's program
+    // Applied after the overrides of the testcase: a multiplier scales the limits of the testcase,
+    // while an absolute value replaces them.
+    timeLimit?: LimitOverride;
+    memoryLimit?: LimitOverride;
+}
+
+// The grader supplies `main`, while the user implements the functions it calls.
+export interface Grader {
+    userFileName: string; // The user's code is saved with this name, to be included by the grader
+    files: FileContent[]; // Including the entry of the grader, named `sourceFileName` of the language
+    allowMain: boolean; // Don't reject the user's code that seems to define `main`
+}
+
 export interface TestData {
     name: string;
     subtasks: SubtaskJudge[];
-    spj?: Executable;
-    interactor?: Executable;
+    fullScore: number; // Sum of the scores of all subtasks
+    dependencyMode?: DependencyMode;
+    spj?: SpecialJudge;
+    comparator?: ComparatorOptions;
+    languageLimits: { [language: string]: LanguageLimitScaling };
+    interactor?: Interactor;
+    validator?: Validator;
+    generator?: Generator;
+    referenceSolution?: ReferenceSolution;
     extraSourceFiles: { [language: string]: FileContent[] };
+    grader: { [language: string]: Grader };
+    phases?: Phase[];
+    manager?: Executable; // Processes the output of a phase into the input of the next one
+    warnings: string[]; // Problems in data.yml that do not prevent judging
 }
 
 
@@ -79,4 +182,14 @@ export function mergeStatus(ps: TaskStatus[]): TaskStatus {
     } else {
         return TaskStatus.Done;
     }
-}
\ No newline at end of file
+}
+
+export function applyLimitOverride(limit: number, override: LimitOverride): number {
+    if (override == null) {
+        return limit;
+    } else if (override.multiplier) {
+        return limit * override.value;
+    } else {
+        return override.value;
+    }
+}
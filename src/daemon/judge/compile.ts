@@ -6,9 +6,9 @@ import { CompilationResult, TestcaseResult, RPCTaskType, TaskStatus, RPCRequest,
 import winston = require('winston');
 
 export async function compile(
-    code: string, language: Language, extraFiles: FileContent[] = [], priority: number
+    code: string, language: Language, extraFiles: FileContent[] = [], priority: number, sourceFileName?: string
 ): Promise<[string, CompilationResult]> {
-    const fingerprint = codeFingerprint(code, language.name);
+    const fingerprint = codeFingerprint(code, language.name, extraFiles || [], sourceFileName);
     winston.debug(`Compiling code, fingerprint = ${fingerprint}`);
     let result: CompilationResult;
     const unlock = await redis.getCompileLock(fingerprint);
@@ -22,7 +22,8 @@ export async function compile(
                 code: code,
                 language: language.name,
                 extraFiles: extraFiles,
-                binaryName: fingerprint
+                binaryName: fingerprint,
+                sourceFileName: sourceFileName
             };
             result = await rmq.runTask({ type: RPCTaskType.Compile, task: task }, priority);
         }
@@ -5,10 +5,12 @@ import { JudgeTaskContent, JudgeTask, ProblemType, TestData, StandardJudgeParame
 import { StandardJudger } from './standard';
 import { JudgerBase } from './judger-base';
 import { JudgeResult, ErrorType, OverallResult, CompilationResult, TaskStatus, ProgressReportType } from '../../interfaces';
-import { readRulesFile } from '../testData';
+import { getTestData } from '../testDataCache';
 import { filterPath } from '../../utils';
 import { AnswerSubmissionJudger } from './submit-answer';
 import { InteractionJudger } from './interaction';
+import { ValidationJudger } from './validation';
+import { MultiPhaseJudger } from './multi-phase';
 
 export async function judge(
     task: JudgeTaskContent,
@@ -21,7 +23,7 @@ export async function judge(
     let testData: TestData = null;
     try {
         winston.debug(`Reading rules file for ${task.testData}...`);
-        testData = await readRulesFile(filterPath(task.testData));
+        testData = await getTestData(filterPath(task.testData));
     } catch (err) {
         winston.info(`Error reading test data for ${task.testData}`, err);
         return { error: ErrorType.TestDataError, systemMessage: `An error occurred while parsing test data: ${err.toString()}` };
@@ -30,6 +32,10 @@ export async function judge(
         winston.verbose(`Test data ${task.testData} unavailable`);
         return { error: ErrorType.TestDataError, systemMessage: "Testdata unavailable." };
     }
+    for (const warning of testData.warnings) {
+        winston.warn(`Test data ${task.testData}: ${warning}`);
+    }
+    const warnings = testData.warnings.length ? testData.warnings : undefined;
 
     let judger: JudgerBase;
     console.log("Task typ: " + task.type);
@@ -39,6 +45,10 @@ export async function judge(
         judger = new AnswerSubmissionJudger(testData, extraData, task.priority);
     } else if (task.type === ProblemType.Interaction) {
         judger = new InteractionJudger(testData, task.param as InteractionJudgeParameter, task.priority);
+    } else if (task.type === ProblemType.Validation) {
+        judger = new ValidationJudger(testData, task.priority);
+    } else if (task.type === ProblemType.MultiPhase) {
+        judger = new MultiPhaseJudger(testData, task.param as StandardJudgeParameter, task.priority);
     } else {
         throw new Error(`Task type not supported`);
     }
@@ -46,6 +56,18 @@ export async function judge(
     try {
         winston.debug(`Preprocessing testdata for ${task.testData}...`);
         await judger.preprocessTestData();
+        if (testData.generator != null) {
+            winston.debug(`Generating testdata for ${task.testData}...`);
+            await judger.generateTestData();
+        }
+        if (testData.referenceSolution != null) {
+            winston.debug(`Generating answers for ${task.testData}...`);
+            await judger.generateAnswers();
+        }
+        if (testData.validator != null && testData.validator.beforeJudging && task.type !== ProblemType.Validation) {
+            winston.debug(`Validating testdata for ${task.testData}...`);
+            await judger.validateTestData();
+        }
     } catch (err) {
         winston.verbose(`Test data ${task.testData} err`, err);
         return { error: ErrorType.TestDataError, systemMessage: err.toString() };
@@ -58,12 +80,13 @@ export async function judge(
     if (compileResult.status !== TaskStatus.Done) {
         winston.verbose(`Compilation error: ${compileResult.message}`);
         return {
-            compile: compileResult
+            compile: compileResult,
+            warnings: warnings
         };
     }
     winston.debug(`Judging...`);
     const judgeResult = await judger.judge(r => reportProgress({ compile: compileResult, judge: r }));
     
     await judger.cleanup();
-    return { compile: compileResult, judge: judgeResult };
+    return { compile: compileResult, judge: judgeResult, warnings: warnings };
 }
\ No newline at end of file
@@ -1,11 +1,10 @@
-import { TestData, InteractionJudgeParameter, TestcaseJudge } from '../interfaces';
-import { TaskStatus, ErrorType, TestcaseDetails, CompilationResult, JudgeResult, TestcaseResult, InteractionRunTask, StandardRunResult, RPCTaskType } from '../../interfaces';
+import { TestData, InteractionJudgeParameter, TestcaseJudge, Interactor } from '../interfaces';
+import { TaskStatus, ErrorType, TestcaseDetails, CompilationResult, JudgeResult, TestcaseResult, InteractionRunTask, InteractionRunResult, RPCTaskType, SpecialJudgeProtocol } from '../../interfaces';
 import { globalConfig as Cfg } from '../config';
 import { cloneObject, readFileLength } from '../../utils';
-import { compile } from './compile';
 import { Language, getLanguage } from '../../languages';
 import { runTask } from '../rmq';
-import { JudgerBase } from './judger-base';
+import { JudgerBase, getTestcaseLimits } from './judger-base';
 
 import pathLib = require('path');
 import winston = require('winston');
@@ -14,6 +13,7 @@ export class InteractionJudger extends JudgerBase {
     parameters: InteractionJudgeParameter;
     userCodeLanguage: Language;
     interactorExecutableName: string = null;
+    spjExecutableName: string = null;
     userCodeExecuableName: string = null;
 
     constructor(testData: TestData,
@@ -26,49 +26,50 @@ export class InteractionJudger extends JudgerBase {
 
     async preprocessTestData(): Promise<void> {
         if (this.testData.interactor != null) {
-            winston.verbose("Compiling interactor.");
-            const [interactorExecutableName, interactorResult] = await compile(this.testData.interactor.sourceCode,
-                this.testData.interactor.language, null, this.priority);
-            if (interactorResult.status !== TaskStatus.Done) {
-                winston.verbose("Special judge CE: " + interactorResult.message);
-                let message = null;
-                if (interactorResult.message != null && interactorResult.message !== "") {
-                    message = "===== Interactor Compilation Message =====" + interactorResult.message;
-                }
-                throw new Error(message);
-            } else {
-                this.interactorExecutableName = interactorExecutableName;
-            }
+            this.interactorExecutableName = await this.compileHelper('Interactor', this.testData.interactor);
         } else {
             this.interactorExecutableName = null;
         }
+
+        // Only a testlib interactor leaves its output to be checked by the special judge.
+        if (this.testData.spj != null && this.testData.interactor != null &&
+            this.testData.interactor.protocol === SpecialJudgeProtocol.Testlib) {
+            this.spjExecutableName = await this.compileSpecialJudge();
+        } else {
+            this.spjExecutableName = null;
+        }
     }
 
     async compile(): Promise<CompilationResult> {
         const language = getLanguage(this.parameters.language);
-        const [executableName, compilationResult] = await compile(
-            this.parameters.code,
-            language,
-            this.testData.extraSourceFiles[language.name],
-            this.priority
-        );
+        const [executableName, compilationResult] = await this.compileSolution(this.parameters.code, language);
         this.userCodeExecuableName = executableName;
         return compilationResult;
     }
 
     async judgeTestcase(curCase: TestcaseJudge, started: () => Promise<void>): Promise<TestcaseDetails> {
+        const [timeLimit, memoryLimit] = getTestcaseLimits(this.testData, this.parameters.language,
+            this.parameters.timeLimit, this.parameters.memoryLimit, curCase);
+        const interactor = this.testData.interactor || {} as Interactor;
         const task: InteractionRunTask = {
             testDataName: this.testData.name,
             inputData: curCase.input,
             answerData: curCase.output,
-            time: this.parameters.timeLimit,
-            memory: this.parameters.memoryLimit,
+            time: timeLimit,
+            memory: memoryLimit,
             userExecutableName: this.userCodeExecuableName,
-            interactorExecutableName: this.interactorExecutableName
+            interactorExecutableName: this.interactorExecutableName,
+            processes: interactor.processes,
+            connection: interactor.connection,
+            transcript: interactor.transcript,
+            interactorTime: interactor.timeLimit,
+            interactorMemory: interactor.memoryLimit,
+            interactorProtocol: interactor.protocol,
+            spjExecutableName: this.spjExecutableName,
+            spjProtocol: this.testData.spj && this.testData.spj.protocol
         };
 
-        // We do not have to create a InteractionRunResult
-        const [inputContent, outputContent, runResult]: [string, string, StandardRunResult] = await Promise.all([
+        const [inputContent, outputContent, runResult]: [string, string, InteractionRunResult] = await Promise.all([
             readFileLength(curCase.input ? pathLib.join(Cfg.testDataDirectory, this.testData.name, curCase.input) : null, Cfg.dataDisplayLimit),
             readFileLength(curCase.output ? pathLib.join(Cfg.testDataDirectory, this.testData.name, curCase.output) : null, Cfg.dataDisplayLimit),
             runTask({ type: RPCTaskType.RunInteraction, task: task }, this.priority, started)
@@ -78,13 +79,18 @@ export class InteractionJudger extends JudgerBase {
             type: runResult.result,
             time: runResult.time,
             memory: runResult.memory,
+            timeLimit: timeLimit,
+            memoryLimit: memoryLimit * 1024,
             userError: runResult.userError,
             userOutput: null,
             scoringRate: runResult.scoringRate,
             spjMessage: runResult.spjMessage,
             input: { name: curCase.input, content: inputContent },
             output: { name: curCase.output, content: outputContent },
-            systemMessage: runResult.systemMessage
+            systemMessage: runResult.systemMessage,
+            interactionLog: runResult.interactionLog,
+            interactorTime: runResult.interactorTime,
+            interactorMemory: runResult.interactorMemory
         };
     }
 }
\ No newline at end of file
@@ -1,23 +1,74 @@
-import { TestData, SubtaskScoringType, TestcaseJudge } from '../interfaces';
-import { CompilationResult, JudgeResult, TaskStatus, SubtaskResult, TestcaseDetails } from '../../interfaces';
-import { Language } from '../../languages';
+import { TestData, SubtaskScoringType, DependencyMode, TestcaseJudge, LanguageLimitScaling, Executable, Phase, applyLimitOverride } from '../interfaces';
+import { CompilationResult, JudgeResult, TaskStatus, SubtaskResult, TestcaseDetails, RPCTaskType, ValidationRunTask, ValidationRunResult, GenerationRunTask, GenerationRunResult, StandardRunTask, StandardRunResult, TestcaseResultType } from '../../interfaces';
+import { Language, DIAGNOSTICS_NAME_SUFFIX } from '../../languages';
 import { compile } from './compile';
+import { runTask } from '../rmq';
+import * as redis from '../redis';
+import { rememberForTestData } from '../testDataCache';
 import winston = require('winston');
 import _ = require('lodash');
+import fse = require('fs-extra');
+import pathLib = require('path');
 import { globalConfig } from '../config';
 
-const globalFullScore = 100;
-function calculateSubtaskScore(scoring: SubtaskScoringType, scores: number[]): number {
+// Default limits of the reference solution, in ms and MiB.
+const referenceTimeLimit = 10000, referenceMemoryLimit = 1024;
+function calculateSubtaskScore(scoring: SubtaskScoringType, scores: number[], weights: number[]): number {
     if (scoring === SubtaskScoringType.Minimum) {
         return _.min(scores);
+    } else if (scoring === SubtaskScoringType.Maximum) {
+        return _.max(scores);
     } else if (scoring === SubtaskScoringType.Multiple) {
         return _.reduce(scores,
             (res, cur) => res * cur, 1);
     } else if (scoring === SubtaskScoringType.Summation) {
-        return _.sum(scores) / scores.length;
+        return _.sum(scores.map((s, i) => s * weights[i])) / _.sum(weights);
+    } else if (scoring === SubtaskScoringType.GeometricMean) {
+        if (scores.some(s => s === 0)) {
+            return 0;
+        }
+        return Math.exp(_.sum(scores.map((s, i) => Math.log(s) * weights[i])) / _.sum(weights));
     }
 }
 
+// In these types a zero testcase makes the whole subtask zero, so the rest can be skipped.
+function isSkippable(scoring: SubtaskScoringType): boolean {
+    return [SubtaskScoringType.Minimum, SubtaskScoringType.Multiple, SubtaskScoringType.GeometricMean].includes(scoring);
+}
+
+// Returns [time limit in ms, memory limit in MiB] for a testcase, or a phase of it,
+// with overrides of the testcase, then those of the phase, and scaling of the language applied.
+export function getTestcaseLimits(testData: TestData, language: string,
+    timeLimit: number, memoryLimit: number, curCase: TestcaseJudge, phase: Phase = null): [number, number] {
+    // Scaling in data.yml takes precedence over the global one.
+    const scaling: LanguageLimitScaling = Object.assign({},
+        globalConfig.languageLimits[language], testData.languageLimits[language]);
+    const time = applyLimitOverride(applyLimitOverride(timeLimit, curCase.timeLimit), phase && phase.timeLimit),
+        memory = applyLimitOverride(applyLimitOverride(memoryLimit, curCase.memoryLimit), phase && phase.memoryLimit);
+    return [
+        Math.round(time * (scaling.timeMultiplier || 1) + (scaling.timeOverhead || 0)),
+        Math.round(memory * (scaling.memoryMultiplier || 1) + (scaling.memoryOverhead || 0))
+    ];
+}
+
+// Definitions of `main` in languages with graders supported, by file extension.
+const mainFunctionPatterns: { [extension: string]: RegExp } = {
+    cpp: /\b(?:int|void|signed|unsigned|auto)\s+main\s*\(/,
+    c: /\b(?:int|void|signed|unsigned)\s+main\s*\(/,
+    java: /\bstatic\s+void\s+main\s*\(/,
+    cs: /\bstatic\s+(?:async\s+)?(?:void|int|Task|Task\s*<\s*int\s*>)\s+Main\s*\(/
+};
+
+// Comments and string literals are matched together, so that neither is taken for the start of the other.
+const commentsAndStrings = /\/\*[\s\S]*?\*\/|\/\/.*$|"(?:\\[\s\S]|[^"\\\n])*"|'(?:\\[\s\S]|[^'\\\n])*'/gm;
+
+// This is a heuristic, so it can be turned off by `allowMain` of the grader in data.yml.
+function definesMainFunction(code: string, language: Language): boolean {
+    const pattern = mainFunctionPatterns[language.fileExtension];
+    // Comments and strings are removed, or a commented-out `main` or one in a string would be matched.
+    return pattern != null && pattern.test(code.replace(commentsAndStrings, ' '));
+}
+
 export abstract class JudgerBase {
     priority: number;
     testData: TestData;
@@ -30,6 +81,159 @@ export abstract class JudgerBase {
 
     async preprocessTestData(): Promise<void> { }
 
+    // Compiles a solution together with the extra source files and the grader of its language.
+    protected async compileSolution(code: string, language: Language): Promise<[string, CompilationResult]> {
+        const extraFiles = this.testData.extraSourceFiles[language.name] || [];
+        // The diagnostics version of a language uses the same grader.
+        const grader = this.testData.grader[language.name.replace(DIAGNOSTICS_NAME_SUFFIX, '')];
+        if (grader == null) {
+            return await compile(code, language, extraFiles, this.priority);
+        }
+        if (!grader.allowMain && definesMainFunction(code, language)) {
+            return [null, {
+                status: TaskStatus.Failed,
+                message: "The main function is provided by the grader of this problem, please remove it from your code."
+            }];
+        }
+        return await compile(code, language, extraFiles.concat(grader.files), this.priority, grader.userFileName);
+    }
+
+    // Compiles a program of the test data, e.g. the special judge, once for each revision of the test data,
+    // unless the binary has been removed since. Throws an error with the compilation message if it fails.
+    // A solution is compiled with the grader of its language.
+    protected compileHelper(name: string, executable: Executable, isSolution: boolean = false): Promise<string> {
+        return rememberForTestData(this.testData, name, async () => {
+            winston.verbose(`Compiling ${name.toLowerCase()}.`);
+            const [executableName, result] = isSolution
+                ? await this.compileSolution(executable.sourceCode, executable.language)
+                : await compile(executable.sourceCode, executable.language, null, this.priority);
+            if (result.status !== TaskStatus.Done) {
+                winston.verbose(`${name} CE: ${result.message}`);
+                throw new Error(result.message
+                    ? `===== ${name} Compilation Message =====${result.message}`
+                    : `Failed to compile the ${name.toLowerCase()}.`);
+            }
+            return executableName;
+        }, async executableName => !!await redis.checkBinaryExistance(executableName));
+    }
+
+    compileSpecialJudge(): Promise<string> {
+        return this.compileHelper('Special Judge', this.testData.spj);
+    }
+
+    compileValidator(): Promise<string> {
+        return this.compileHelper('Validator', this.testData.validator);
+    }
+
+    protected validateInput(input: string, validatorExecutableName: string, started?: () => Promise<void>): Promise<ValidationRunResult> {
+        const task: ValidationRunTask = {
+            testDataName: this.testData.name,
+            inputData: input,
+            validatorExecutableName: validatorExecutableName
+        };
+        return runTask({ type: RPCTaskType.RunValidation, task: task }, this.priority, started);
+    }
+
+    // Throws if any input of the test data is rejected by the validator.
+    // Each revision of the test data is validated only once.
+    validateTestData(): Promise<void> {
+        return rememberForTestData(this.testData, 'validation', async () => {
+            const validatorExecutableName = await this.compileValidator();
+            const inputs = _.uniq(_.flatten(this.testData.subtasks.map(s => s.cases.map(c => c.input))).filter(i => i != null));
+            const results = await Promise.all(inputs.map(input => this.validateInput(input, validatorExecutableName)));
+
+            const messages = inputs.map((input, index) => results[index].pass ? null : `${input}: ${results[index].message}`)
+                .filter(m => m != null);
+            if (messages.length) {
+                throw new Error("Input validation failed:\n" + messages.join('\n'));
+            }
+        });
+    }
+
+    compileGenerator(): Promise<string> {
+        return this.compileHelper('Generator', this.testData.generator);
+    }
+
+    // Runs the generator for inputs given by generator arguments in data.yml.
+    // The runner skips inputs that have already been generated.
+    generateTestData(): Promise<void> {
+        return rememberForTestData(this.testData, 'generation', async () => {
+            const cases = _.uniqBy(_.flatten(this.testData.subtasks.map(s => s.cases)).filter(c => c.generatorArgs != null), c => c.input);
+            if (cases.length === 0) {
+                return;
+            }
+
+            const generatorExecutableName = await this.compileGenerator();
+            const results = await Promise.all(cases.map(curCase => {
+                const task: GenerationRunTask = {
+                    testDataName: this.testData.name,
+                    generatorExecutableName: generatorExecutableName,
+                    args: curCase.generatorArgs,
+                    outputData: curCase.input,
+                    time: this.testData.generator.timeLimit,
+                    memory: this.testData.generator.memoryLimit
+                };
+                return runTask({ type: RPCTaskType.RunGenerator, task: task }, this.priority) as Promise<GenerationRunResult>;
+            }));
+
+            const messages = cases.map((curCase, index) => results[index].success ? null : `${curCase.name} (${curCase.generatorArgs.join(' ')}): ${results[index].message}`)
+                .filter(m => m != null);
+            if (messages.length) {
+                throw new Error("Input generation failed:\n" + messages.join('\n'));
+            }
+        });
+    }
+
+    compileReferenceSolution(): Promise<string> {
+        return this.compileHelper('Reference Solution', this.testData.referenceSolution, true);
+    }
+
+    // Produces the missing answers with the reference solution, which reads and writes the files
+    // given, if any, instead of stdio. Its time and memory usage is logged, which helps tuning the limits.
+    generateAnswers(fileIOInput: string = null, fileIOOutput: string = null): Promise<void> {
+        return rememberForTestData(this.testData, 'answers', async () => {
+            const dataPath = pathLib.join(globalConfig.testDataDirectory, this.testData.name);
+            const cases: TestcaseJudge[] = [];
+            for (const curCase of _.uniqBy(_.flatten(this.testData.subtasks.map(s => s.cases)).filter(c => c.outputGenerated), c => c.output)) {
+                if (!await fse.exists(pathLib.join(dataPath, curCase.output)))
+                    cases.push(curCase);
+            }
+            if (cases.length === 0) {
+                return;
+            }
+
+            const reference = this.testData.referenceSolution;
+            const referenceExecutableName = await this.compileReferenceSolution();
+            const results: StandardRunResult[] = await Promise.all(cases.map(curCase => {
+                const task: StandardRunTask = {
+                    testDataName: this.testData.name,
+                    inputData: curCase.input,
+                    answerData: null,
+                    time: reference.timeLimit || referenceTimeLimit,
+                    memory: reference.memoryLimit || referenceMemoryLimit,
+                    fileIOInput: fileIOInput,
+                    fileIOOutput: fileIOOutput,
+                    userExecutableName: referenceExecutableName,
+                    saveOutputAs: curCase.output
+                };
+                return runTask({ type: RPCTaskType.RunStandard, task: task }, this.priority);
+            }));
+
+            const messages: string[] = [];
+            for (const [index, curCase] of cases.entries()) {
+                const result = results[index];
+                if (result.result !== TestcaseResultType.Accepted) {
+                    messages.push(`${curCase.name}: ${TestcaseResultType[result.result]} ${result.systemMessage || ''}`);
+                    continue;
+                }
+                winston.info(`Reference solution on ${curCase.name} of ${this.testData.name}: ${result.time} ms, ${result.memory} KiB`);
+            }
+            if (messages.length) {
+                throw new Error("Answer generation failed:\n" + messages.join('\n'));
+            }
+        });
+    }
+
     abstract compile(): Promise<CompilationResult>;
     protected compileWithDiagnostics(): Promise<CompilationResult> {
         throw new Error("Diagnostics not supported.");
@@ -39,54 +243,84 @@ export abstract class JudgerBase {
         const results: SubtaskResult[] = this.testData.subtasks.map(t => ({
             cases: t.cases.map(j => ({
                 status: TaskStatus.Waiting,
-                result: { scoringRate: t.type !== SubtaskScoringType.Summation ? 1 : 0 } as any
+                result: { scoringRate: isSkippable(t.type) ? 1 : 0 } as any,
+                // Details are stripped accordingly before reporting, see feedback.ts.
+                visibility: j.visibility
             })),
             status: TaskStatus.Waiting
         }));
         this.subtaskResults = results;
 
-        const updateSubtaskScore = (currentTask, currentResult) => {
+        // The ratio of the full score a subtask gets, and the upper bound of it set by its prerequisites.
+        const scoringRates: number[] = this.testData.subtasks.map(() => 1);
+        const scoringRateCaps: number[] = this.testData.subtasks.map(() => 1);
+        const updateSubtaskScore = (subtaskIndex: number) => {
+            const currentTask = this.testData.subtasks[subtaskIndex], currentResult = results[subtaskIndex];
             if (currentResult.cases.some(c => c.status === TaskStatus.Failed)) {
                 // If any testcase has failed, the score is invaild.
-                currentResult.score = NaN;
+                scoringRates[subtaskIndex] = NaN;
             } else {
-                currentResult.score = calculateSubtaskScore(currentTask.type, currentResult.cases.map(c => c.result ? c.result.scoringRate : 0)) * currentTask.score;
+                scoringRates[subtaskIndex] = Math.min(scoringRateCaps[subtaskIndex],
+                    calculateSubtaskScore(currentTask.type, currentResult.cases.map(c => c.result ? c.result.scoringRate : 0),
+                        currentTask.cases.map(c => c.weight != null ? c.weight : 1)));
             }
+            currentResult.score = scoringRates[subtaskIndex] * currentTask.score;
         }
 
         const testcaseTasksCache: Map<string, Promise<TestcaseDetails>> = new Map();
         const judgeTestcaseWrapper = (curCase: TestcaseJudge, started: () => Promise<void>): Promise<TestcaseDetails> => {
-            if (testcaseTasksCache.has(curCase.name)) {
-                return testcaseTasksCache.get(curCase.name);
+            // The same testcase may be judged with different limits in different subtasks.
+            const cacheKey = JSON.stringify([curCase.name, curCase.timeLimit, curCase.memoryLimit]);
+            if (testcaseTasksCache.has(cacheKey)) {
+                return testcaseTasksCache.get(cacheKey);
             }
 
             const task = this.judgeTestcase(curCase, started);
-            testcaseTasksCache.set(curCase.name, task);
+            testcaseTasksCache.set(cacheKey, task);
 
             return task;
         }
 
         for (let subtaskIndex = 0; subtaskIndex < this.testData.subtasks.length; subtaskIndex++) {
-            const currentResult = results[subtaskIndex];
-            const currentTask = this.testData.subtasks[subtaskIndex];
-            updateSubtaskScore(currentTask, currentResult);
+            updateSubtaskScore(subtaskIndex);
         }
 
-        const reportProgress = function () {
-            reportProgressResult({ subtasks: results });
+        const reportProgress = () => {
+            reportProgressResult({ subtasks: results, maxScore: this.testData.fullScore });
         }
         winston.debug(`Totally ${results.length} subtasks.`);
 
-        const judgeTasks: Promise<void>[] = [];
-        for (let subtaskIndex = 0; subtaskIndex < this.testData.subtasks.length; subtaskIndex++) {
+        // A subtask is judged after its prerequisites, which are started on demand.
+        const judgeTasks: Map<number, Promise<void>> = new Map();
+        const judgeSubtask = (subtaskIndex: number): Promise<void> => {
+            if (judgeTasks.has(subtaskIndex)) {
+                return judgeTasks.get(subtaskIndex);
+            }
+
             const currentResult = results[subtaskIndex];
             const currentTask = this.testData.subtasks[subtaskIndex];
 
-            const updateCurrentSubtaskScore = () => updateSubtaskScore(currentTask, currentResult);
+            const updateCurrentSubtaskScore = () => updateSubtaskScore(subtaskIndex);
+
+            const task = (async () => {
+                const dependencies = currentTask.dependencies || [];
+                await Promise.all(dependencies.map(judgeSubtask));
+                // A failed prerequisite (NaN) is treated as zero.
+                const dependencyRate = _.min(dependencies.map(d => scoringRates[d] || 0).concat([1]));
+                scoringRateCaps[subtaskIndex] = this.testData.dependencyMode === DependencyMode.Minimum
+                    ? dependencyRate : (dependencyRate < 1 ? 0 : 1);
+                if (scoringRateCaps[subtaskIndex] === 0) {
+                    winston.debug(`Subtask ${subtaskIndex}: prerequisites not passed, skipping.`);
+                    for (const currentTaskResult of currentResult.cases) {
+                        currentTaskResult.status = TaskStatus.Skipped;
+                    }
+                    updateCurrentSubtaskScore();
+                    await reportProgress();
+                    return;
+                }
 
-            judgeTasks.push((async () => {
                 // Type minimum is skippable, run one by one
-                if (currentTask.type !== SubtaskScoringType.Summation) {
+                if (isSkippable(currentTask.type)) {
                     let skipped: boolean = false;
                     for (let index = 0; index < currentTask.cases.length; index++) {
                         const currentTaskResult = currentResult.cases[index];
@@ -142,9 +376,11 @@ export abstract class JudgerBase {
                 }
                 updateCurrentSubtaskScore();
                 winston.verbose(`Subtask ${subtaskIndex}, finished`);
-            })());
-        }
-        await Promise.all(judgeTasks);
+            })();
+            judgeTasks.set(subtaskIndex, task);
+            return task;
+        };
+        await Promise.all(this.testData.subtasks.map((s, subtaskIndex) => judgeSubtask(subtaskIndex)));
 
         // Let's check whether this submission supports diagnostics first.
         if (globalConfig.diagnostics.enabled && this.supportDiagnostics()) {
@@ -152,7 +388,7 @@ export abstract class JudgerBase {
             await this.runDiagnostics(reportProgress);
         }
 
-        return { subtasks: results };
+        return { subtasks: results, maxScore: this.testData.fullScore };
     }
     protected abstract judgeTestcase(curCase: TestcaseJudge, started: () => Promise<void>): Promise<TestcaseDetails>;
 
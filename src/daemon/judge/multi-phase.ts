@@ -0,0 +1,85 @@
+import { TestData, StandardJudgeParameter, TestcaseJudge } from '../interfaces';
+import { TaskStatus, TestcaseDetails, MultiPhaseRunTask, MultiPhaseRunResult, RPCTaskType } from '../../interfaces';
+import { globalConfig as Cfg } from '../config';
+import { readFileLength } from '../../utils';
+import { runTask } from '../rmq';
+import { getTestcaseLimits } from './judger-base';
+import { StandardJudger } from './standard';
+
+import pathLib = require('path');
+import winston = require('winston');
+
+// Runs the submission once for each phase declared in data.yml, e.g. an encoder and a decoder.
+export class MultiPhaseJudger extends StandardJudger {
+    managerExecutableName: string = null;
+
+    constructor(testData: TestData,
+        param: StandardJudgeParameter,
+        priority: number) {
+        super(testData, param, priority);
+    }
+
+    async preprocessTestData(): Promise<void> {
+        if (this.testData.phases == null || this.testData.phases.length === 0) {
+            throw new Error("No phases specified in data.yml.");
+        }
+        // Every phase is run with stdin and stdout.
+        if (this.parameters.fileIOInput != null || this.parameters.fileIOOutput != null) {
+            throw new Error("File IO is not supported by multi-phase problems.");
+        }
+        await super.preprocessTestData();
+
+        if (this.testData.manager != null) {
+            this.managerExecutableName = await this.compileHelper('Manager', this.testData.manager);
+        } else {
+            this.managerExecutableName = null;
+        }
+    }
+
+    supportDiagnostics(): boolean {
+        return false;
+    }
+
+    async judgeTestcase(curCase: TestcaseJudge, started: () => Promise<void>): Promise<TestcaseDetails> {
+        const limits = this.testData.phases.map(phase => getTestcaseLimits(this.testData, this.parameters.language,
+            this.parameters.timeLimit, this.parameters.memoryLimit, curCase, phase));
+        const task: MultiPhaseRunTask = {
+            testDataName: this.testData.name,
+            inputData: curCase.input,
+            answerData: curCase.output,
+            phases: this.testData.phases.map((phase, index) => ({
+                args: phase.args,
+                time: limits[index][0],
+                memory: limits[index][1]
+            })),
+            userExecutableName: this.userCodeExecuableName,
+            managerExecutableName: this.managerExecutableName,
+            spjExecutableName: this.spjExecutableName,
+            spjProtocol: this.testData.spj && this.testData.spj.protocol,
+            comparator: this.testData.comparator
+        };
+
+        const [inputContent, outputContent, runResult]: [string, string, MultiPhaseRunResult] = await Promise.all([
+            readFileLength(curCase.input ? pathLib.join(Cfg.testDataDirectory, this.testData.name, curCase.input) : null, Cfg.dataDisplayLimit),
+            readFileLength(curCase.output ? pathLib.join(Cfg.testDataDirectory, this.testData.name, curCase.output) : null, Cfg.dataDisplayLimit),
+            runTask({ type: RPCTaskType.RunMultiPhase, task: task }, this.priority, started)
+        ]) as any;
+
+        return {
+            type: runResult.result,
+            time: runResult.time,
+            memory: runResult.memory,
+            phases: runResult.phases.map((usage, index) => Object.assign({}, usage, {
+                timeLimit: limits[index][0],
+                memoryLimit: limits[index][1] * 1024
+            })),
+            userError: runResult.userError,
+            userOutput: runResult.userOutput,
+            scoringRate: runResult.scoringRate,
+            spjMessage: runResult.spjMessage,
+            input: { name: curCase.input, content: inputContent },
+            output: { name: curCase.output, content: outputContent },
+            systemMessage: runResult.systemMessage
+        };
+    }
+}
@@ -2,10 +2,9 @@ import { TestData, StandardJudgeParameter, TestcaseJudge } from '../interfaces';
 import { TaskStatus, ErrorType, TestcaseDetails, CompilationResult, JudgeResult, TestcaseResult, StandardRunTask, StandardRunResult, RPCTaskType, TestcaseResultType } from '../../interfaces';
 import { globalConfig as Cfg } from '../config';
 import { cloneObject, readFileLength } from '../../utils';
-import { compile } from './compile';
 import { Language, getLanguage, DIAGNOSTICS_NAME_SUFFIX } from '../../languages';
 import { runTask } from '../rmq';
-import { JudgerBase } from './judger-base';
+import { JudgerBase, getTestcaseLimits } from './judger-base';
 
 import pathLib = require('path');
 import winston = require('winston');
@@ -26,44 +25,27 @@ export class StandardJudger extends JudgerBase {
 
     async preprocessTestData(): Promise<void> {
         if (this.testData.spj != null) {
-            winston.verbose("Compiling special judge.");
-            const [spjExecutableName, spjResult] = await compile(this.testData.spj.sourceCode,
-                this.testData.spj.language, null, this.priority);
-            if (spjResult.status !== TaskStatus.Done) {
-                winston.verbose("Special judge CE: " + spjResult.message);
-                let message = null;
-                if (spjResult.message != null && spjResult.message !== "") {
-                    message = "===== Special Judge Compilation Message =====" + spjResult.message;
-                }
-                throw new Error(message);
-            } else {
-                this.spjExecutableName = spjExecutableName;
-            }
+            this.spjExecutableName = await this.compileSpecialJudge();
         } else {
             this.spjExecutableName = null;
         }
     }
 
+    // The reference solution reads and writes the same files as the user's program.
+    generateAnswers(): Promise<void> {
+        return super.generateAnswers(this.parameters.fileIOInput, this.parameters.fileIOOutput);
+    }
+
     async compile(): Promise<CompilationResult> {
         const language = getLanguage(this.parameters.language);
-        const [executableName, compilationResult] = await compile(
-            this.parameters.code,
-            language,
-            this.testData.extraSourceFiles[language.name],
-            this.priority
-        );
+        const [executableName, compilationResult] = await this.compileSolution(this.parameters.code, language);
         this.userCodeExecuableName = executableName;
         return compilationResult;
     }
 
     async compileWithDiagnostics(): Promise<CompilationResult> {
         const language = getLanguage(this.parameters.language + DIAGNOSTICS_NAME_SUFFIX);
-        const [executableName, compilationResult] = await compile(
-            this.parameters.code,
-            language,
-            this.testData.extraSourceFiles[language.name],
-            this.priority
-        );
+        const [executableName, compilationResult] = await this.compileSolution(this.parameters.code, language);
         this.userCodeExecuableName = executableName;
         return compilationResult;
     }
@@ -145,16 +127,20 @@ export class StandardJudger extends JudgerBase {
     }
 
     async judgeTestcase(curCase: TestcaseJudge, started: () => Promise<void>): Promise<TestcaseDetails> {
+        const [timeLimit, memoryLimit] = getTestcaseLimits(this.testData, this.parameters.language,
+            this.parameters.timeLimit, this.parameters.memoryLimit, curCase);
         const task: StandardRunTask = {
             testDataName: this.testData.name,
             inputData: curCase.input,
             answerData: curCase.output,
-            time: this.parameters.timeLimit,
-            memory: this.parameters.memoryLimit,
+            time: timeLimit,
+            memory: memoryLimit,
             fileIOInput: this.parameters.fileIOInput,
             fileIOOutput: this.parameters.fileIOOutput,
             userExecutableName: this.userCodeExecuableName,
-            spjExecutableName: this.spjExecutableName
+            spjExecutableName: this.spjExecutableName,
+            spjProtocol: this.testData.spj && this.testData.spj.protocol,
+            comparator: this.testData.comparator
         };
 
         const [inputContent, outputContent, runResult]: [string, string, StandardRunResult] = await Promise.all([
@@ -167,6 +153,8 @@ export class StandardJudger extends JudgerBase {
             type: runResult.result,
             time: runResult.time,
             memory: runResult.memory,
+            timeLimit: timeLimit,
+            memoryLimit: memoryLimit * 1024,
             userError: runResult.userError,
             userOutput: runResult.userOutput,
             scoringRate: runResult.scoringRate,
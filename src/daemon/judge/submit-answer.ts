@@ -1,16 +1,17 @@
 import winston = require('winston');
 import pathLib = require('path');
-import decompress = require('decompress');
 import randomstring = require('randomstring');
 import fse = require('fs-extra');
+import _ = require('lodash');
 
 import { RPCTaskType, TestcaseResultType, TestcaseDetails, TaskStatus, CompilationResult, AnswerSubmissionRunTask, AnswerSubmissionRunResult } from '../../interfaces';
 import { TestData, TestcaseJudge } from '../interfaces';
 import { JudgerBase } from './judger-base';
-import { compile } from './compile';
 import { globalConfig as Cfg } from '../config';
 import { runTask } from '../rmq';
 import { readFileLength, readBufferLength } from '../../utils';
+import { extractArchive } from '../archive';
+import { describeManifest } from '../manifest';
 
 export class AnswerSubmissionJudger extends JudgerBase {
     submissionContent: Buffer;
@@ -26,19 +27,7 @@ export class AnswerSubmissionJudger extends JudgerBase {
 
     async preprocessTestData(): Promise<void> {
         if (this.testData.spj != null) {
-            winston.verbose("Compiling special judge.");
-            const [spjExecutableName, spjResult] = await compile(this.testData.spj.sourceCode,
-                this.testData.spj.language, null, this.priority);
-            if (spjResult.status !== TaskStatus.Done) {
-                winston.verbose("Special judge CE: " + spjResult.message);
-                let message = null;
-                if (spjResult.message != null && spjResult.message !== "") {
-                    message = "===== Special Judge Compilation Message =====" + spjResult.message;
-                }
-                throw new Error(message);
-            } else {
-                this.spjExecutableName = spjExecutableName;
-            }
+            this.spjExecutableName = await this.compileSpecialJudge();
         } else {
             this.spjExecutableName = null;
         }
@@ -47,10 +36,12 @@ export class AnswerSubmissionJudger extends JudgerBase {
     async compile(): Promise<CompilationResult> {
         await fse.mkdir(this.tempDirectory);
         try {
-            await decompress(this.submissionContent, this.tempDirectory);
-            return { status: TaskStatus.Done };
+            const files = await extractArchive(this.submissionContent, this.tempDirectory, Cfg.archiveLimits);
+            const expectedFiles = _.flatten(this.testData.subtasks.map(s => s.cases))
+                .map(c => c.userOutputFile).filter(f => f != null);
+            return { status: TaskStatus.Done, message: describeManifest(expectedFiles, files) };
         } catch (err) {
-            return { status: TaskStatus.Failed, message: `Unable to decompress your answer` + err.toString() };
+            return { status: TaskStatus.Failed, message: `Unable to decompress your answer: ${err.message}` };
         }
     }
 
@@ -73,7 +64,9 @@ export class AnswerSubmissionJudger extends JudgerBase {
             inputData: curCase.input,
             answerData: curCase.output,
             userAnswer: userOutput,
-            spjExecutableName: this.spjExecutableName
+            spjExecutableName: this.spjExecutableName,
+            spjProtocol: this.testData.spj && this.testData.spj.protocol,
+            comparator: this.testData.comparator
         }
 
         const [inputContent, outputContent, runResult]: [string, string, AnswerSubmissionRunResult] = await Promise.all([
@@ -0,0 +1,53 @@
+import { TestData, TestcaseJudge, SubtaskScoringType } from '../interfaces';
+import { TaskStatus, TestcaseDetails, CompilationResult, TestcaseResultType } from '../../interfaces';
+import { JudgerBase } from './judger-base';
+
+import winston = require('winston');
+
+// Runs the validator over all inputs of the test data, reporting a result for each testcase.
+// Accepted means the input is valid.
+export class ValidationJudger extends JudgerBase {
+    validatorExecutableName: string = null;
+
+    constructor(testData: TestData, priority: number) {
+        // All testcases should be validated, while subtasks of other types skip the rest after a failure,
+        // and subtasks are skipped if their prerequisites fail.
+        super(Object.assign({}, testData, {
+            subtasks: testData.subtasks.map(s => Object.assign({}, s, { type: SubtaskScoringType.Summation, dependencies: [] }))
+        }), priority);
+    }
+
+    async compile(): Promise<CompilationResult> {
+        if (this.testData.validator == null) {
+            return { status: TaskStatus.Failed, message: "No validator specified in data.yml." };
+        }
+        try {
+            this.validatorExecutableName = await this.compileValidator();
+            return { status: TaskStatus.Done };
+        } catch (err) {
+            return { status: TaskStatus.Failed, message: err.message };
+        }
+    }
+
+    async judgeTestcase(curCase: TestcaseJudge, started: () => Promise<void>): Promise<TestcaseDetails> {
+        if (curCase.input == null) {
+            return {
+                type: TestcaseResultType.FileError,
+                time: null,
+                memory: null,
+                scoringRate: 0,
+                systemMessage: "The testcase has no input file."
+            };
+        }
+
+        const result = await this.validateInput(curCase.input, this.validatorExecutableName, started);
+        winston.verbose(`Validated ${curCase.input}: ${result.pass}`);
+        return {
+            type: result.pass ? TestcaseResultType.Accepted : TestcaseResultType.WrongAnswer,
+            time: null,
+            memory: null,
+            scoringRate: result.pass ? 1 : 0,
+            spjMessage: result.message
+        };
+    }
+}
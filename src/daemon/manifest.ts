@@ -0,0 +1,68 @@
+import pathLib = require('path');
+import _ = require('lodash');
+
+// At most this many files are listed in each part of the report.
+const listLimit = 20;
+
+function editDistance(a: string, b: string): number {
+    let previous = _.range(b.length + 1);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function numbersIn(name: string): string {
+    return (pathLib.basename(name).match(/\d+/g) || []).map(n => String(Number(n))).join(',');
+}
+
+// Files with numbers in their names are only similar to files with the same numbers (e.g. `1.out` and `output1.txt`),
+// while the others must be close enough in spelling.
+function findSimilarFile(name: string, candidates: string[]): string {
+    let result: string = null, resultDistance = Infinity;
+    for (const candidate of candidates) {
+        const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+        const similar = numbersIn(name) !== '' ?
+            numbersIn(name) === numbersIn(candidate) : distance <= Math.floor(name.length / 2);
+        if (similar && distance < resultDistance) {
+            result = candidate;
+            resultDistance = distance;
+        }
+    }
+    return result;
+}
+
+function describeList(title: string, lines: string[]): string {
+    let result = title + '\n' + lines.slice(0, listLimit).map(l => '  ' + l + '\n').join('');
+    if (lines.length > listLimit) {
+        result += `  ...and ${lines.length - listLimit} more\n`;
+    }
+    return result;
+}
+
+// Compares the files in the archive of an answer submission with the expected ones,
+// returning a report of the missing files and the ignored ones, or null if they match.
+export function describeManifest(expectedFiles: string[], actualFiles: string[]): string {
+    const expected = _.uniq(expectedFiles.map(f => pathLib.posix.normalize(f))),
+        actual = _.uniq(actualFiles.map(f => pathLib.posix.normalize(f)));
+    const missing = _.difference(expected, actual), extra = _.difference(actual, expected);
+    if (missing.length === 0 && extra.length === 0) {
+        return null;
+    }
+
+    let result = '';
+    if (missing.length) {
+        result += describeList('Missing files:', missing.sort().map(name => {
+            const suggestion = findSimilarFile(name, extra);
+            return suggestion != null ? `${name} (found ${suggestion}, is it misnamed?)` : name;
+        }));
+    }
+    if (extra.length) {
+        result += describeList('Ignored files:', extra.sort());
+    }
+    return result;
+}
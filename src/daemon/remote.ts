@@ -73,3 +73,10 @@ export async function reportResult(data: ProgressReportData) {
     const payload = msgpack.encode(data);
     socketIOConnection.emit('reportResult', Cfg.serverToken, payload);
 }
+
+// The `full result' is the complete result regardless of the feedback mode, which is for administrators only.
+export async function reportFullResult(data: ProgressReportData) {
+    winston.verbose('Reporting full result', data);
+    const payload = msgpack.encode(data);
+    socketIOConnection.emit('reportFullResult', Cfg.serverToken, payload);
+}
@@ -0,0 +1,307 @@
+import { languages } from '../languages';
+
+// A minimal schema language, just enough to validate data.yml.
+export interface Schema {
+    type: 'number' | 'integer' | 'string' | 'boolean' | 'enum' | 'array' | 'object' | 'map' | 'oneOf';
+    values?: string[]; // For 'enum'
+    items?: Schema; // For 'array' and 'map'
+    properties?: { [key: string]: Schema }; // For 'object'
+    required?: string[]; // For 'object'
+    options?: Schema[]; // For 'oneOf'
+}
+
+export interface ValidationResult {
+    errors: string[];
+    warnings: string[];
+}
+
+function describe(schema: Schema): string {
+    if (schema.type === 'enum') {
+        return schema.values.map(v => JSON.stringify(v)).join(', ');
+    } else if (schema.type === 'oneOf') {
+        return schema.options.map(describe).join(' or ');
+    } else if (schema.type === 'map') {
+        return 'object';
+    } else {
+        return schema.type;
+    }
+}
+
+function isObject(value: any): boolean {
+    return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validateValue(value: any, schema: Schema, path: string, result: ValidationResult): void {
+    const fail = () => {
+        result.errors.push(`${path || 'data.yml'}: expected ${describe(schema)}, got ${JSON.stringify(value)}`);
+    };
+    const child = (key: string) => path ? `${path}.${key}` : key;
+
+    switch (schema.type) {
+        case 'number':
+            if (typeof value !== 'number' || !isFinite(value)) fail();
+            break;
+        case 'integer':
+            if (!Number.isInteger(value)) fail();
+            break;
+        case 'string':
+            if (typeof value !== 'string') fail();
+            break;
+        case 'boolean':
+            if (typeof value !== 'boolean') fail();
+            break;
+        case 'enum':
+            if (!schema.values.includes(value)) fail();
+            break;
+        case 'array':
+            if (!Array.isArray(value)) {
+                fail();
+            } else {
+                // Indices are 1-based, as subtasks are numbered from 1 in data.yml.
+                value.forEach((item, index) => validateValue(item, schema.items, `${path}[${index + 1}]`, result));
+            }
+            break;
+        case 'map':
+            if (!isObject(value)) {
+                fail();
+            } else {
+                for (const key of Object.keys(value)) {
+                    validateValue(value[key], schema.items, child(key), result);
+                }
+            }
+            break;
+        case 'object':
+            if (!isObject(value)) {
+                fail();
+                break;
+            }
+            for (const key of schema.required || []) {
+                if (value[key] == null) {
+                    result.errors.push(`${child(key)}: required but missing`);
+                }
+            }
+            for (const key of Object.keys(value)) {
+                if (!schema.properties.hasOwnProperty(key)) {
+                    result.warnings.push(`${child(key)}: unknown key, ignored`);
+                } else if (value[key] != null) {
+                    validateValue(value[key], schema.properties[key], child(key), result);
+                }
+            }
+            break;
+        case 'oneOf': {
+            // Report the errors of the only option of the same kind, which is likely to be intended.
+            const attempts = schema.options.map(option => {
+                const attempt: ValidationResult = { errors: [], warnings: [] };
+                validateValue(value, option, path, attempt);
+                return attempt;
+            });
+            const matched = attempts.find(attempt => attempt.errors.length === 0);
+            const sameKind = isObject(value)
+                ? attempts.filter((attempt, index) => ['object', 'map'].includes(schema.options[index].type))
+                : [];
+            if (matched != null) {
+                result.warnings.push(...matched.warnings);
+            } else if (sameKind.length === 1) {
+                result.errors.push(...sameKind[0].errors);
+                result.warnings.push(...sameKind[0].warnings);
+            } else {
+                fail();
+            }
+            break;
+        }
+    }
+}
+
+export function validate(value: any, schema: Schema): ValidationResult {
+    const result: ValidationResult = { errors: [], warnings: [] };
+    validateValue(value, schema, '', result);
+    return result;
+}
+
+const languageSchema: Schema = { type: 'enum', values: languages.map(l => l.name) };
+
+const executableSchema: Schema = {
+    type: 'object',
+    properties: {
+        language: languageSchema,
+        fileName: { type: 'string' }
+    },
+    required: ['language', 'fileName']
+};
+
+const comparatorTypeSchema: Schema = {
+    type: 'enum',
+    values: ['diff', 'tokens', 'lines', 'case-insensitive', 'float', 'unordered-lines', 'bytes']
+};
+
+const argumentsSchema: Schema = {
+    type: 'oneOf',
+    options: [{ type: 'string' }, { type: 'array', items: { type: 'oneOf', options: [{ type: 'string' }, { type: 'number' }] } }]
+};
+
+const limitSchema: Schema = { type: 'oneOf', options: [{ type: 'number' }, { type: 'string' }] };
+
+const extraFilesSchema: Schema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            name: { type: 'string' },
+            dest: { type: 'string' }
+        },
+        required: ['name', 'dest']
+    }
+};
+
+const visibilitySchema: Schema = { type: 'enum', values: ['sample', 'public', 'hidden'] };
+
+const testcaseSchema: Schema = {
+    type: 'oneOf',
+    options: [{ type: 'integer' }, { type: 'string' }, {
+        type: 'object',
+        properties: {
+            name: { type: 'oneOf', options: [{ type: 'integer' }, { type: 'string' }] },
+            timeLimit: limitSchema,
+            memoryLimit: limitSchema,
+            args: argumentsSchema,
+            weight: { type: 'number' },
+            visibility: visibilitySchema
+        },
+        required: ['name']
+    }]
+};
+
+export const userConfigSchema: Schema = {
+    type: 'object',
+    properties: {
+        subtasks: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    score: { type: 'number' },
+                    type: { type: 'enum', values: ['sum', 'mul', 'min', 'max', 'gmean'] },
+                    cases: { type: 'array', items: testcaseSchema },
+                    dependencies: { type: 'array', items: { type: 'integer' } },
+                    timeLimit: limitSchema,
+                    memoryLimit: limitSchema,
+                    visibility: visibilitySchema
+                },
+                required: ['score', 'type', 'cases']
+            }
+        },
+        dependencyMode: { type: 'enum', values: ['strict', 'minimum'] },
+        inputFile: { type: 'string' },
+        fullScore: { type: 'number' },
+        outputFile: { type: 'string' },
+        userOutput: { type: 'string' },
+        caseSelectors: { type: 'boolean' },
+        specialJudge: {
+            type: 'object',
+            properties: Object.assign({
+                protocol: { type: 'enum', values: ['syzoj', 'testlib'] } as Schema
+            }, executableSchema.properties),
+            required: executableSchema.required
+        },
+        interactor: {
+            type: 'object',
+            properties: Object.assign({
+                processes: { type: 'integer' } as Schema,
+                connection: { type: 'enum', values: ['stdio', 'fifo'] } as Schema,
+                protocol: { type: 'enum', values: ['syzoj', 'testlib'] } as Schema,
+                transcript: { type: 'boolean' } as Schema,
+                timeLimit: { type: 'number' } as Schema,
+                memoryLimit: { type: 'number' } as Schema
+            }, executableSchema.properties),
+            required: executableSchema.required
+        },
+        validator: {
+            type: 'object',
+            properties: Object.assign({
+                beforeJudging: { type: 'boolean' } as Schema
+            }, executableSchema.properties),
+            required: executableSchema.required
+        },
+        generator: {
+            type: 'oneOf',
+            options: [{ type: 'string' }, {
+                type: 'object',
+                properties: Object.assign({
+                    timeLimit: { type: 'number' } as Schema,
+                    memoryLimit: { type: 'number' } as Schema
+                }, executableSchema.properties),
+                required: executableSchema.required
+            }]
+        },
+        referenceSolution: {
+            type: 'object',
+            properties: Object.assign({
+                regenerate: { type: 'boolean' } as Schema,
+                timeLimit: { type: 'number' } as Schema,
+                memoryLimit: { type: 'number' } as Schema
+            }, executableSchema.properties),
+            required: executableSchema.required
+        },
+        extraSourceFiles: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    language: languageSchema,
+                    files: extraFilesSchema
+                },
+                required: ['language', 'files']
+            }
+        },
+        phases: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    args: argumentsSchema,
+                    timeLimit: limitSchema,
+                    memoryLimit: limitSchema
+                }
+            }
+        },
+        manager: executableSchema,
+        grader: {
+            type: 'map',
+            items: {
+                type: 'object',
+                properties: {
+                    main: { type: 'string' },
+                    userFileName: { type: 'string' },
+                    files: extraFilesSchema,
+                    allowMain: { type: 'boolean' }
+                },
+                required: ['main', 'userFileName']
+            }
+        },
+        comparator: {
+            type: 'oneOf',
+            options: [comparatorTypeSchema, {
+                type: 'object',
+                properties: {
+                    type: comparatorTypeSchema,
+                    absoluteEpsilon: { type: 'number' },
+                    relativeEpsilon: { type: 'number' }
+                },
+                required: ['type']
+            }]
+        },
+        languageLimits: {
+            type: 'map',
+            items: {
+                type: 'object',
+                properties: {
+                    timeMultiplier: { type: 'number' },
+                    timeOverhead: { type: 'number' },
+                    memoryMultiplier: { type: 'number' },
+                    memoryOverhead: { type: 'number' }
+                }
+            }
+        }
+    },
+    required: ['subtasks']
+};
@@ -2,30 +2,57 @@ import yaml = require('js-yaml');
 import fse = require('fs-extra');
 import pathLib = require('path');
 import _ = require('lodash');
+import sha256 = require('crypto-js/sha256');
 import { Language, languages, getLanguage } from '../languages';
 import { compareStringByNumber, tryReadFile, filterPath } from '../utils';
-import { SubtaskScoringType, SubtaskJudge, TestcaseJudge, Executable, TestData } from './interfaces';
-import { FileContent } from '../interfaces';
+import { SubtaskScoringType, DependencyMode, SubtaskJudge, TestcaseJudge, LimitOverride, LanguageLimitScaling, Executable, SpecialJudge, Validator, Interactor, Generator, ReferenceSolution, Grader, Phase, TestData } from './interfaces';
+import { FileContent, TestcaseVisibility, SpecialJudgeProtocol, ComparatorType, ComparatorOptions, InteractionConnection } from '../interfaces';
 import { globalConfig as Cfg } from './config';
+import { validate, userConfigSchema } from './schema';
+
+export interface UserTestcase {
+    name: string | number;
+    timeLimit?: number | string;
+    memoryLimit?: number | string;
+    args?: string | (string | number)[]; // Arguments passed to the generator
+    weight?: number;
+    visibility?: string;
+}
 
 export interface UserSubtask {
     score: number;
     type: string;
-    cases: (string | number)[];
+    cases: (string | number | UserTestcase)[];
     dependencies?: number[];
+    timeLimit?: number | string;
+    memoryLimit?: number | string;
+    visibility?: string;
 }
 
 export interface UserConfigFile {
     subtasks: UserSubtask[];
+    dependencyMode?: string;
     inputFile: string;
     fullScore?: number;
     outputFile?: string;
     userOutput?: string;
-    specialJudge?: { language: string, fileName: string };
-    interactor?: { language: string, fileName: string };
+    caseSelectors?: boolean;
+    specialJudge?: { language: string, fileName: string, protocol?: string };
+    comparator?: string | { type: string, absoluteEpsilon?: number, relativeEpsilon?: number };
+    languageLimits?: { [language: string]: LanguageLimitScaling };
+    interactor?: { language: string, fileName: string, protocol?: string, processes?: number, connection?: string, transcript?: boolean, timeLimit?: number, memoryLimit?: number };
+    validator?: { language: string, fileName: string, beforeJudging?: boolean };
+    generator?: string | { language: string, fileName: string, timeLimit?: number, memoryLimit?: number }; // See `generatorLanguages` for a file name alone
+    referenceSolution?: { language: string, fileName: string, regenerate?: boolean, timeLimit?: number, memoryLimit?: number };
     extraSourceFiles?: { language: string, files: { name: string, dest: string }[] }[];
+    grader?: { [language: string]: { main: string, userFileName: string, files?: { name: string, dest: string }[], allowMain?: boolean } };
+    phases?: { args?: string | (string | number)[], timeLimit?: number | string, memoryLimit?: number | string }[];
+    manager?: { language: string, fileName: string };
 }
 
+// Generated inputs are stored in this directory of the test data, which is not a part of the test data itself.
+export const generatedDirectoryName = '.generated';
+
 function filterHyphen(input: string): string {
     if (input == null || input === '-')
         return null;
@@ -40,13 +67,357 @@ function parseScoringType(typeString: string): SubtaskScoringType {
         return SubtaskScoringType.Multiple;
     else if (typeString === 'min')
         return SubtaskScoringType.Minimum;
-    throw new Error("Subtask type must be one of the following: sum, mul, min");
+    else if (typeString === 'max')
+        return SubtaskScoringType.Maximum;
+    else if (typeString === 'gmean')
+        return SubtaskScoringType.GeometricMean;
+    throw new Error("Subtask type must be one of the following: sum, mul, min, max, gmean");
+}
+
+function parseDependencyMode(modeString: string): DependencyMode {
+    if (modeString == null || modeString === 'strict')
+        return DependencyMode.Strict;
+    else if (modeString === 'minimum')
+        return DependencyMode.Minimum;
+    throw new Error("Dependency mode must be one of the following: strict, minimum");
+}
+
+function parseVisibility(visibilityString: string): TestcaseVisibility {
+    if (visibilityString == null || visibilityString === 'sample')
+        return TestcaseVisibility.Sample;
+    else if (visibilityString === 'public')
+        return TestcaseVisibility.Public;
+    else if (visibilityString === 'hidden')
+        return TestcaseVisibility.Hidden;
+    throw new Error("Visibility must be one of the following: sample, public, hidden");
+}
+
+function parseSpecialJudgeProtocol(protocolString: string, programName = 'Special judge'): SpecialJudgeProtocol {
+    if (protocolString == null || protocolString === 'syzoj')
+        return SpecialJudgeProtocol.Syzoj;
+    else if (protocolString === 'testlib')
+        return SpecialJudgeProtocol.Testlib;
+    throw new Error(`${programName} protocol must be one of the following: syzoj, testlib`);
+}
+
+// Named pipes are required to talk to more than one user process.
+function parseInteractionConnection(connectionString: string, processes: number): InteractionConnection {
+    if (connectionString == null)
+        return processes > 1 ? InteractionConnection.Fifo : InteractionConnection.Stdio;
+    else if (connectionString === 'stdio' && processes === 1)
+        return InteractionConnection.Stdio;
+    else if (connectionString === 'stdio')
+        throw new Error("Interactor connection stdio supports only one process");
+    else if (connectionString === 'fifo')
+        return InteractionConnection.Fifo;
+    throw new Error("Interactor connection must be one of the following: stdio, fifo");
+}
+
+const comparatorTypes: { [name: string]: ComparatorType } = {
+    'diff': ComparatorType.Diff,
+    'tokens': ComparatorType.Tokens,
+    'lines': ComparatorType.Lines,
+    'case-insensitive': ComparatorType.CaseInsensitive,
+    'float': ComparatorType.FloatingPoint,
+    'unordered-lines': ComparatorType.UnorderedLines,
+    'bytes': ComparatorType.Bytes
+};
+
+function parseComparator(src: UserConfigFile['comparator']): ComparatorOptions {
+    if (src == null)
+        return null;
+    const options = typeof src === 'string' ? { type: src } : src;
+    if (!comparatorTypes.hasOwnProperty(options.type))
+        throw new Error("Comparator type must be one of the following: " + Object.keys(comparatorTypes).join(', '));
+    return {
+        type: comparatorTypes[options.type],
+        absoluteEpsilon: options.absoluteEpsilon,
+        relativeEpsilon: options.relativeEpsilon
+    };
+}
+
+function parseLimitOverride(src: number | string): LimitOverride {
+    if (src == null)
+        return null;
+    const matchResult = /^\s*(\d+(?:\.\d+)?)\s*(x?)\s*$/.exec(src.toString());
+    if (matchResult == null || !(Number(matchResult[1]) > 0))
+        throw new Error(`Invalid limit ${src}, which must be a positive number or a multiplier like "2x"`);
+    return { value: Number(matchResult[1]), multiplier: matchResult[2] === 'x' };
+}
+
+// Replaces the first `#` in a file name template, or every placeholder if `caseSelectors` is enabled,
+// in which case a placeholder of multiple `#`s, e.g. `##`, pads numeric testcase names with zeros to its length.
+function applyPlaceholder(template: string, name: string, caseSelectors: boolean): string {
+    if (!caseSelectors)
+        return filterPath(template.replace('#', name));
+    return filterPath(template.replace(/#+/g, placeholder =>
+        placeholder.length > 1 && /^\d+$/.test(name) ? _.padStart(name, placeholder.length, '0') : name));
+}
+
+// List all files in the directory recursively, with paths relative to it.
+async function listFiles(path: string, prefix: string = ''): Promise<string[]> {
+    const result: string[] = [];
+    for (const fileName of await fse.readdir(path)) {
+        if (prefix === '' && fileName === generatedDirectoryName)
+            continue;
+        const filePath = pathLib.join(path, fileName);
+        if ((await fse.stat(filePath)).isDirectory()) {
+            result.push(...await listFiles(filePath, prefix + fileName + '/'));
+        } else {
+            result.push(prefix + fileName);
+        }
+    }
+    return result;
+}
+
+// Find the names of all testcases whose files exist in the data directory, according to the template.
+async function findTestcaseNames(dataPath: string, template: string): Promise<string[]> {
+    const placeholders = template.match(/#+/g) || [];
+    if (placeholders.length === 0)
+        throw new Error(`File name template ${template} has no placeholder`);
+    const isPadded = placeholders[0].length > 1;
+    // All placeholders in the template must be replaced by the same name.
+    const regex = new RegExp('^' + template.split(/(#+)/).map((part, index) => {
+        if (index % 2 === 0)
+            return _.escapeRegExp(part);
+        else if (index === 1)
+            return isPadded ? '(\\d+)' : '(.+)';
+        else
+            return '\\1';
+    }).join('') + '$');
+
+    const names = (await listFiles(dataPath))
+        .map(fileName => regex.exec(fileName))
+        .filter(matchResult => matchResult != null)
+        .map(matchResult => isPadded ? Number(matchResult[1]).toString() : matchResult[1]);
+    return _.uniq(names).sort(compareStringByNumber);
+}
+
+function globToRegExp(glob: string): RegExp {
+    return new RegExp('^' + glob.split('').map(c => {
+        if (c === '*')
+            return '[^/]*';
+        else if (c === '?')
+            return '[^/]';
+        else
+            return _.escapeRegExp(c);
+    }).join('') + '$');
+}
+
+// A selector is one of the following, of which only the first is supported unless `caseSelectors` is enabled:
+// - a testcase name, e.g. `3` or `sample`;
+// - a range of numeric names, e.g. `"1-20"`;
+// - a glob or regular expression matched against the names of existing testcases, e.g. `"sub1_*"` or `"/^1\\d$/"`.
+async function expandTestcaseSelector(selector: string | number, caseSelectors: boolean,
+    findNames: () => Promise<string[]>): Promise<string[]> {
+    const selectorString = selector.toString();
+    let matchResult: RegExpExecArray, regex: RegExp = null;
+    if (typeof selector === 'number' || !caseSelectors) {
+        return [selectorString];
+    } else if ((matchResult = /^\s*(\d+)\s*-\s*(\d+)\s*$/.exec(selectorString)) != null) {
+        const from = Number(matchResult[1]), to = Number(matchResult[2]);
+        if (from > to)
+            throw new Error(`Invalid testcase range ${selectorString}`);
+        return _.range(from, to + 1).map(i => i.toString());
+    } else if ((matchResult = /^\/(.*)\/$/.exec(selectorString)) != null) {
+        regex = new RegExp(matchResult[1]);
+    } else if (/[*?]/.test(selectorString)) {
+        regex = globToRegExp(selectorString);
+    } else {
+        return [selectorString];
+    }
+
+    const names = (await findNames()).filter(name => regex.test(name));
+    if (names.length === 0)
+        throw new Error(`Testcase selector ${selectorString} matches no testcases`);
+    return names;
+}
+
+// Arguments are given either as a list, or as a string split by whitespaces
+// like in a shell, with quotes and backslashes, e.g. `10 "a b" c\ d` gives `10`, `a b` and `c d`.
+function parseArguments(src: string | (string | number)[]): string[] {
+    if (Array.isArray(src))
+        return src.map(arg => arg.toString());
+    const result: string[] = [];
+    let current: string = null, quote: string = null;
+    for (let i = 0; i < src.length; i++) {
+        const c = src[i];
+        if (c === quote) {
+            quote = null;
+        } else if (c === '\\' && quote !== "'" && i + 1 < src.length) {
+            current = (current || '') + src[++i];
+        } else if (quote != null) {
+            current += c;
+        } else if (c === '"' || c === "'") {
+            quote = c;
+            current = current || '';
+        } else if (/\s/.test(c)) {
+            if (current != null)
+                result.push(current);
+            current = null;
+        } else {
+            current = (current || '') + c;
+        }
+    }
+    if (quote != null)
+        throw new Error(`Unmatched quote in arguments ${src}`);
+    if (current != null)
+        result.push(current);
+    return result;
+}
+
+// Generated inputs are named after the generator and the arguments, so that they are
+// generated again whenever either of them changes.
+function getGeneratedInputName(generator: Generator, args: string[]): string {
+    const hash = sha256([generator.language.name, generator.sourceCode, JSON.stringify(args)].join('\n')).toString();
+    return `${generatedDirectoryName}/${hash}.in`;
+}
+
+// Answers produced by the reference solution are named after the solution and the input.
+async function getGeneratedAnswerName(reference: ReferenceSolution, dataPath: string, input: string): Promise<string> {
+    // Generated inputs are already named after their content.
+    let inputRevision = input || '';
+    if (input != null && !input.startsWith(generatedDirectoryName + '/')) {
+        const stat = await fse.stat(pathLib.join(dataPath, input));
+        inputRevision += `:${stat.size}:${stat.mtime.getTime()}`;
+    }
+    const hash = sha256([reference.language.name, reference.sourceCode, inputRevision].join('\n')).toString();
+    return `${generatedDirectoryName}/${hash}.out`;
+}
+
+// Missing answers are produced by the reference solution, if there is one.
+async function useReferenceAnswer(curCase: TestcaseJudge, reference: ReferenceSolution, dataPath: string): Promise<void> {
+    if (reference == null)
+        return;
+    if (!reference.regenerate && curCase.output != null && await fse.exists(pathLib.join(dataPath, curCase.output)))
+        return;
+    curCase.output = await getGeneratedAnswerName(reference, dataPath, curCase.input);
+    curCase.outputGenerated = true;
+}
+
+// Errors are reported with the path of the testcase in data.yml, e.g. `subtasks[2].cases[4]`, with 1-based indices.
+async function parseSubtaskCases(subtask: UserSubtask, obj: UserConfigFile,
+    generator: Generator, reference: ReferenceSolution, dataPath: string,
+    findNames: () => Promise<string[]>, path: string, errors: string[]): Promise<TestcaseJudge[]> {
+    const result: TestcaseJudge[] = [];
+    for (let index = 0; index < subtask.cases.length; index++) {
+        const src = subtask.cases[index], casePath = `${path}.cases[${index + 1}]`;
+        const testcase: UserTestcase = typeof src === 'object' ? src : { name: src };
+        try {
+            if (testcase.args != null && obj.generator == null)
+                throw new Error("Generator arguments are given but there is no generator");
+            if (testcase.weight != null && !(testcase.weight > 0))
+                throw new Error("Weight of a testcase must be positive");
+            const args = testcase.args != null ? parseArguments(testcase.args) : null;
+            for (const name of await expandTestcaseSelector(testcase.name, obj.caseSelectors, findNames)) {
+                let input = obj.inputFile ? applyPlaceholder(obj.inputFile, name, obj.caseSelectors) : null;
+                if (args != null)
+                    input = generator && getGeneratedInputName(generator, args);
+                const curCase: TestcaseJudge = {
+                    input: input,
+                    output: obj.outputFile ? applyPlaceholder(obj.outputFile, name, obj.caseSelectors) : null,
+                    userOutputFile: obj.userOutput ? applyPlaceholder(obj.userOutput, name, obj.caseSelectors) : null,
+                    name: name,
+                    // Limits of a testcase take precedence over those of its subtask.
+                    timeLimit: parseLimitOverride(testcase.timeLimit != null ? testcase.timeLimit : subtask.timeLimit),
+                    memoryLimit: parseLimitOverride(testcase.memoryLimit != null ? testcase.memoryLimit : subtask.memoryLimit),
+                    generatorArgs: args,
+                    weight: testcase.weight,
+                    visibility: parseVisibility(testcase.visibility != null ? testcase.visibility : subtask.visibility)
+                };
+                // Generated inputs do not exist until the generator is run.
+                if (testcase.args == null && curCase.input != null && !await fse.exists(pathLib.join(dataPath, curCase.input)))
+                    errors.push(`${casePath}: file ${curCase.input} of testcase ${name} does not exist`);
+                else
+                    await useReferenceAnswer(curCase, reference, dataPath);
+                // Answers are not required if they can be produced by the reference solution.
+                if (reference == null && curCase.output != null && !await fse.exists(pathLib.join(dataPath, curCase.output)))
+                    errors.push(`${casePath}: file ${curCase.output} of testcase ${name} does not exist`);
+                result.push(curCase);
+            }
+        } catch (err) {
+            errors.push(`${casePath}: ${err.message}`);
+        }
+    }
+    return result;
 }
 
 async function parseExecutable(src: any, dataPath: string): Promise<Executable> {
     return { sourceCode: await fse.readFile(pathLib.join(dataPath, filterPath(src.fileName)), 'utf8'), language: getLanguage(src.language) };
 }
 
+async function parseSpecialJudge(src: any, dataPath: string): Promise<SpecialJudge> {
+    return Object.assign(await parseExecutable(src, dataPath), { protocol: parseSpecialJudgeProtocol(src.protocol) });
+}
+
+async function parseValidator(src: any, dataPath: string): Promise<Validator> {
+    return Object.assign(await parseExecutable(src, dataPath), { beforeJudging: !!src.beforeJudging });
+}
+
+async function parseInteractor(src: UserConfigFile['interactor'], dataPath: string): Promise<Interactor> {
+    const processes = src.processes == null ? 1 : src.processes;
+    if (processes < 1)
+        throw new Error("Number of interactor processes must be positive");
+    return Object.assign(await parseExecutable(src, dataPath), {
+        protocol: parseSpecialJudgeProtocol(src.protocol, 'Interactor'),
+        processes: processes,
+        connection: parseInteractionConnection(src.connection, processes),
+        transcript: !!src.transcript,
+        timeLimit: src.timeLimit,
+        memoryLimit: src.memoryLimit
+    });
+}
+
+function parsePhase(src: UserConfigFile['phases'][0]): Phase {
+    return {
+        args: parseArguments(src.args || []),
+        timeLimit: parseLimitOverride(src.timeLimit),
+        memoryLimit: parseLimitOverride(src.memoryLimit)
+    };
+}
+
+async function parseReferenceSolution(src: any, dataPath: string): Promise<ReferenceSolution> {
+    return Object.assign(await parseExecutable(src, dataPath), {
+        regenerate: !!src.regenerate,
+        timeLimit: src.timeLimit,
+        memoryLimit: src.memoryLimit
+    });
+}
+
+// The languages of generators given by their file names only, by extension.
+// C++ generators are usually written with testlib, which needs a modern standard, hence cpp17 rather than cpp.
+const generatorLanguages: { [extension: string]: string } = {
+    '.c': 'c',
+    '.cpp': 'cpp17',
+    '.cs': 'csharp',
+    '.hs': 'haskell',
+    '.java': 'java',
+    '.js': 'nodejs',
+    '.lua': 'lua',
+    '.ml': 'ocaml',
+    '.pas': 'pascal',
+    '.py': 'python3',
+    '.rb': 'ruby',
+    '.vala': 'vala',
+    '.vb': 'vbnet',
+    '.wy': 'wenyan'
+};
+
+function normalizeGenerator(src: UserConfigFile['generator']): { language: string, fileName: string, timeLimit?: number, memoryLimit?: number } {
+    if (typeof src !== 'string')
+        return src;
+    const extension = pathLib.extname(src);
+    return { language: generatorLanguages.hasOwnProperty(extension) ? generatorLanguages[extension] : null, fileName: src };
+}
+
+async function parseGenerator(src: UserConfigFile['generator'], dataPath: string): Promise<Generator> {
+    const generator = normalizeGenerator(src);
+    return Object.assign(await parseExecutable(generator, dataPath), {
+        timeLimit: generator.timeLimit,
+        memoryLimit: generator.memoryLimit
+    });
+}
+
 // Deal with subtask dependencies.
 function resolveSubtaskDependencies(subtasks: SubtaskJudge[], edgesIn: number[][]): void {
     const fatal = (message) => {
@@ -76,10 +447,8 @@ function resolveSubtaskDependencies(subtasks: SubtaskJudge[], edgesIn: number[][
 
     for (let head = 0; head < queue.length; head++) {
         const index = queue[head];
-        const subtask = subtasks[index];
-        const extraCases: TestcaseJudge[] = _.flatten(edgesIn[index].map(from => subtasks[from].cases));
-
-        subtask.cases = _.union(extraCases, subtask.cases);
+        // Prerequisites are judged before the subtask, see JudgerBase.judge.
+        subtasks[index].dependencies = _.uniq(edgesIn[index]);
 
         for (const to of edgesOut[index]) {
             degreeIn[to] -= 1;
@@ -93,6 +462,99 @@ function resolveSubtaskDependencies(subtasks: SubtaskJudge[], edgesIn: number[][
 
 async function parseYamlContent(obj: UserConfigFile, dataName: string): Promise<TestData> {
     const dataPath = pathLib.join(Cfg.testDataDirectory, dataName);
+    const validationResult = validate(obj, userConfigSchema);
+    const errors = validationResult.errors;
+    if (errors.length) {
+        throw new Error("Invalid data.yml:\n" + errors.join('\n'));
+    }
+
+    // Files referenced in data.yml are all checked before reporting errors.
+    const checkFile = async (fileName: string, path: string) => {
+        if (!await fse.exists(pathLib.join(dataPath, filterPath(fileName))))
+            errors.push(`${path}: file ${fileName} does not exist`);
+    };
+    if (obj.specialJudge)
+        await checkFile(obj.specialJudge.fileName, 'specialJudge.fileName');
+    if (obj.interactor)
+        await checkFile(obj.interactor.fileName, 'interactor.fileName');
+    if (obj.validator)
+        await checkFile(obj.validator.fileName, 'validator.fileName');
+    if (obj.manager)
+        await checkFile(obj.manager.fileName, 'manager.fileName');
+    if (obj.manager && !obj.phases)
+        errors.push(`manager: there are no phases to manage`);
+    let generator: Generator = null;
+    if (obj.generator) {
+        const { language, fileName } = normalizeGenerator(obj.generator);
+        const errorCount = errors.length;
+        if (language == null)
+            errors.push(`generator: unable to infer the language of ${fileName}`);
+        await checkFile(fileName, typeof obj.generator === 'string' ? 'generator' : 'generator.fileName');
+        // The generator is needed to name the generated inputs.
+        if (errors.length === errorCount)
+            generator = await parseGenerator(obj.generator, dataPath);
+    }
+    let reference: ReferenceSolution = null;
+    if (obj.referenceSolution) {
+        const errorCount = errors.length;
+        await checkFile(obj.referenceSolution.fileName, 'referenceSolution.fileName');
+        // The reference solution is needed to name the generated answers.
+        if (errors.length === errorCount)
+            reference = await parseReferenceSolution(obj.referenceSolution, dataPath);
+    }
+    for (const [i, l] of (obj.extraSourceFiles || []).entries()) {
+        for (const [j, f] of l.files.entries()) {
+            await checkFile(f.name, `extraSourceFiles[${i + 1}].files[${j + 1}].name`);
+        }
+    }
+    for (const languageName of Object.keys(obj.grader || {})) {
+        const grader = obj.grader[languageName], language = getLanguage(languageName);
+        if (language == null)
+            errors.push(`grader.${languageName}: unknown language`);
+        else if (filterPath(grader.userFileName) === language.sourceFileName)
+            errors.push(`grader.${languageName}.userFileName: ${language.sourceFileName} is reserved for the grader`);
+        await checkFile(grader.main, `grader.${languageName}.main`);
+        for (const [j, f] of (grader.files || []).entries()) {
+            await checkFile(f.name, `grader.${languageName}.files[${j + 1}].name`);
+        }
+    }
+
+    // The data directory is only listed if some selectors need it.
+    let testcaseNames: Promise<string[]> = null;
+    const findNames = () => testcaseNames || (testcaseNames = findTestcaseNames(dataPath, obj.inputFile || obj.outputFile));
+
+    const subtasks: SubtaskJudge[] = [];
+    for (const [i, s] of obj.subtasks.entries()) {
+        const type = parseScoringType(s.type);
+        subtasks.push({
+            score: s.score,
+            type: type,
+            cases: await parseSubtaskCases(s, obj, generator, reference, dataPath, findNames, `subtasks[${i + 1}]`, errors)
+        });
+        const weighted = s.cases.findIndex(c => typeof c === 'object' && c.weight != null);
+        if (weighted !== -1 && type !== SubtaskScoringType.Summation && type !== SubtaskScoringType.GeometricMean)
+            validationResult.warnings.push(`subtasks[${i + 1}].cases[${weighted + 1}].weight: only used by sum and gmean subtasks, ignored`);
+    }
+
+    if (errors.length) {
+        throw new Error("Invalid data.yml:\n" + errors.join('\n'));
+    }
+
+    // Subtask scores are scaled to fullScore if they do not add up to it.
+    const totalScore = _.sum(subtasks.map(s => s.score));
+    let fullScore = totalScore;
+    if (obj.fullScore != null && Math.abs(obj.fullScore - totalScore) > 1e-6) {
+        if (totalScore > 0) {
+            validationResult.warnings.push(`fullScore: subtask scores add up to ${totalScore} instead of ${obj.fullScore}, scaled to match`);
+            for (const subtask of subtasks) {
+                subtask.score *= obj.fullScore / totalScore;
+            }
+            fullScore = obj.fullScore;
+        } else {
+            validationResult.warnings.push(`fullScore: subtask scores add up to ${totalScore}, ignored`);
+        }
+    }
+
     let extraFiles: { [language: string]: FileContent[] } = {};
     if (obj.extraSourceFiles) {
         for (let l of obj.extraSourceFiles) {
@@ -106,16 +568,21 @@ async function parseYamlContent(obj: UserConfigFile, dataName: string): Promise<
         }
     }
 
-    const subtasks = obj.subtasks.map(s => ({
-        score: s.score,
-        type: parseScoringType(s.type),
-        cases: s.cases.map(c => ({
-            input: obj.inputFile ? filterPath(obj.inputFile.replace('#', c.toString())) : null,
-            output: obj.outputFile ? filterPath(obj.outputFile.replace('#', c.toString())) : null,
-            userOutputFile: obj.userOutput ? filterPath(obj.userOutput.replace('#', c.toString())) : null,
-            name: c.toString()
-        }))
-    }));
+    const graders: { [language: string]: Grader } = {};
+    for (const languageName of Object.keys(obj.grader || {})) {
+        const grader = obj.grader[languageName];
+        const files: FileContent[] = [{
+            name: getLanguage(languageName).sourceFileName,
+            content: await fse.readFile(pathLib.join(dataPath, filterPath(grader.main)), 'utf8')
+        }];
+        for (const f of grader.files || []) {
+            files.push({
+                name: filterPath(f.dest),
+                content: await fse.readFile(pathLib.join(dataPath, filterPath(f.name)), 'utf8')
+            });
+        }
+        graders[languageName] = { userFileName: filterPath(grader.userFileName), files: files, allowMain: !!grader.allowMain };
+    }
 
     resolveSubtaskDependencies(subtasks, obj.subtasks.map(
         s => (s.dependencies || []).map(index => index - 1)
@@ -123,11 +590,75 @@ async function parseYamlContent(obj: UserConfigFile, dataName: string): Promise<
 
     return {
         subtasks,
-        spj: obj.specialJudge && await parseExecutable(obj.specialJudge, dataPath),
+        fullScore: fullScore,
+        dependencyMode: parseDependencyMode(obj.dependencyMode),
+        spj: obj.specialJudge && await parseSpecialJudge(obj.specialJudge, dataPath),
+        comparator: parseComparator(obj.comparator),
+        languageLimits: obj.languageLimits || {},
         extraSourceFiles: extraFiles,
-        interactor: obj.interactor && await parseExecutable(obj.interactor, dataPath),
+        grader: graders,
+        phases: obj.phases && obj.phases.map(parsePhase),
+        manager: obj.manager && await parseExecutable(obj.manager, dataPath),
+        interactor: obj.interactor && await parseInteractor(obj.interactor, dataPath),
+        validator: obj.validator && await parseValidator(obj.validator, dataPath),
+        generator: generator,
+        referenceSolution: reference,
         name: dataName,
+        warnings: validationResult.warnings
+    }
+}
+
+// Common layouts of test data, tried in order. `$1` in output file names is the name of the testcase.
+const testDataLayouts: { input: RegExp, outputs: string[] }[] = [
+    { input: /^([^/]+)\.in$/, outputs: ['$1.out', '$1.ans', '$1.a'] }, // 1.in, 1.out
+    { input: /^input([^/]+)\.txt$/, outputs: ['output$1.txt', 'answer$1.txt'] }, // input1.txt, output1.txt
+    { input: /^([^/]+)\/input$/, outputs: ['$1/output', '$1/answer'] }, // 1/input, 1/output
+    { input: /^(\d+)$/, outputs: ['$1.a'] } // 01, 01.a (Polygon)
+];
+
+// Inputs without answers are accepted if `allowMissingOutput` is set.
+function detectTestcases(fileList: string[], allowMissingOutput: boolean): TestcaseJudge[] {
+    const files = new Set(fileList);
+    const cases: TestcaseJudge[] = [];
+    for (const fileName of fileList) {
+        for (const layout of testDataLayouts) {
+            const matchResult = layout.input.exec(fileName);
+            if (matchResult == null)
+                continue;
+            const output = layout.outputs.map(o => o.replace('$1', matchResult[1])).find(o => files.has(o));
+            // Found output file
+            if (output != null || allowMissingOutput) {
+                cases.push({ input: fileName, output: output, name: matchResult[1] });
+                break;
+            }
+        }
     }
+    return _.uniqBy(cases, c => c.name).sort((a, b) => compareStringByNumber(a.name, b.name));
+}
+
+const defaultFullScore = 100;
+
+// Testcases named like `subtask2_05` are grouped into subtasks if all of them are named so.
+// The full score is divided evenly among the subtasks.
+function inferSubtasks(cases: TestcaseJudge[]): SubtaskJudge[] {
+    const subtaskRegex = /^(?:subtask|sub|task)(\d+)[_\-.]/i;
+    if (!cases.every(c => subtaskRegex.test(c.name))) {
+        return [{
+            score: defaultFullScore,
+            type: SubtaskScoringType.Summation,
+            cases: cases
+        }];
+    }
+
+    const groups = _.groupBy(cases, c => Number(subtaskRegex.exec(c.name)[1]));
+    const subtaskIds = Object.keys(groups).map(Number).sort((a, b) => a - b);
+    const baseScore = Math.floor(defaultFullScore / subtaskIds.length), remainder = defaultFullScore % subtaskIds.length;
+    return subtaskIds.map((id, index) => ({
+        // The remainder goes to the last subtasks, which are usually harder.
+        score: baseScore + (index >= subtaskIds.length - remainder ? 1 : 0),
+        type: SubtaskScoringType.Minimum,
+        cases: groups[id]
+    }));
 }
 
 export async function readRulesFile(dataName: string): Promise<TestData> {
@@ -136,61 +667,46 @@ export async function readRulesFile(dataName: string): Promise<TestData> {
     if (fileContent != null) {
         return parseYamlContent(yaml.safeLoad(fileContent) as UserConfigFile, dataName);
     } else { // No data.yml
-        let spj: Executable = null;
+        let spj: SpecialJudge = null;
         for (const lang of languages) {
             const spjName = pathLib.join(dataPath, "spj_" + lang.name + "." + lang.fileExtension);
             if (await fse.exists(spjName)) {
-                spj = { sourceCode: await fse.readFile(spjName, 'utf8'), language: lang };
+                spj = { sourceCode: await fse.readFile(spjName, 'utf8'), language: lang, protocol: SpecialJudgeProtocol.Syzoj };
+                break;
+            }
+        }
+        let reference: ReferenceSolution = null;
+        for (const lang of languages) {
+            const referenceName = pathLib.join(dataPath, "std_" + lang.name + "." + lang.fileExtension);
+            if (await fse.exists(referenceName)) {
+                reference = { sourceCode: await fse.readFile(referenceName, 'utf8'), language: lang, regenerate: false };
                 break;
             }
         }
-        let cases: { input: string, output: string, name: string }[] = [];
-        let dirContent: string[];
+        let fileList: string[];
         try {
-            dirContent = await fse.readdir(dataPath);
+            fileList = await listFiles(dataPath);
         } catch (err) {
             if (err.code === 'ENOENT') {
                 return null;
             }
             throw err;
         }
-        for (let fileName of await fse.readdir(dataPath)) {
-            let outputFileName = null;
-
-            const fileNameRegex = /^(.*)\.in$/;
-            const matchResult = fileNameRegex.exec(fileName);
-            if (matchResult != null) {
-                const filePrefix = matchResult[1];
-                if ((await fse.stat(pathLib.join(dataPath, fileName))).isFile()) {
-                    const outputPathPrefix = pathLib.join(dataPath, filePrefix);
-                    if (await fse.exists(outputPathPrefix + '.out')) {
-                        outputFileName = filePrefix + '.out';
-                    } else if (await fse.exists(outputPathPrefix + '.ans')) {
-                        outputFileName = filePrefix + '.ans';
-                    }
-                }
-                // Found output file
-                if (outputFileName != null) {
-                    cases.push({
-                        input: filePrefix + '.in',
-                        output: outputFileName,
-                        name: filePrefix
-                    });
-                }
-            }
-        }
-
-        cases.sort((a, b) => compareStringByNumber(a.name, b.name));
 
+        const cases = detectTestcases(fileList, reference != null);
+        for (const curCase of cases) {
+            await useReferenceAnswer(curCase, reference, dataPath);
+        }
         return !cases.length ? null : {
-            subtasks: [{
-                score: 100,
-                type: SubtaskScoringType.Summation,
-                cases: cases
-            }],
+            subtasks: inferSubtasks(cases),
+            fullScore: defaultFullScore,
             spj: spj,
+            referenceSolution: reference,
             name: dataName,
-            extraSourceFiles: {}
+            extraSourceFiles: {},
+            grader: {},
+            languageLimits: {},
+            warnings: []
         };
     }
 }
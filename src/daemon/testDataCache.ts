@@ -0,0 +1,107 @@
+import fse = require('fs-extra');
+import pathLib = require('path');
+import winston = require('winston');
+import sha256 = require('crypto-js/sha256');
+
+import { TestData } from './interfaces';
+import { readRulesFile, generatedDirectoryName } from './testData';
+import { globalConfig as Cfg } from './config';
+
+interface CacheEntry {
+    revision: string;
+    testData: Promise<TestData>;
+}
+
+// At most this many test data are cached, the least recently used ones are dropped first.
+const maxCachedTestData = 64;
+
+// Ordered by the time of use, as a Map keeps the insertion order.
+const testDataCache: Map<string, CacheEntry> = new Map();
+const derivedCache: WeakMap<TestData, Map<string, Promise<any>>> = new WeakMap();
+
+async function collectFileStats(path: string, prefix: string, result: string[]): Promise<void> {
+    for (const fileName of (await fse.readdir(path)).sort()) {
+        if (prefix === '' && fileName === generatedDirectoryName)
+            continue;
+        const filePath = pathLib.join(path, fileName);
+        const stat = await fse.stat(filePath);
+        if (stat.isDirectory()) {
+            await collectFileStats(filePath, prefix + fileName + '/', result);
+        } else {
+            result.push(`${prefix}${fileName}:${stat.size}:${stat.mtime.getTime()}`);
+        }
+    }
+}
+
+// The revision changes whenever a file in the data directory is added, removed or modified.
+// Returns null if the data directory does not exist.
+async function getDataRevision(dataName: string): Promise<string> {
+    const fileStats: string[] = [];
+    try {
+        await collectFileStats(pathLib.join(Cfg.testDataDirectory, dataName), '', fileStats);
+    } catch (err) {
+        if (err.code === 'ENOENT') {
+            return null;
+        }
+        throw err;
+    }
+    return sha256(fileStats.join('\n')).toString();
+}
+
+// Same as readRulesFile, but the result is reused until the data directory changes.
+export async function getTestData(dataName: string): Promise<TestData> {
+    // Every file is checked, as any of them may be modified in place.
+    const revision = await getDataRevision(dataName);
+    if (revision == null) {
+        testDataCache.delete(dataName);
+        return null;
+    }
+
+    let entry = testDataCache.get(dataName);
+    if (entry == null || entry.revision !== revision) {
+        winston.debug(`Test data ${dataName} changed, revision = ${revision}`);
+        entry = { revision: revision, testData: readRulesFile(dataName) };
+    }
+    testDataCache.delete(dataName);
+    testDataCache.set(dataName, entry);
+    while (testDataCache.size > maxCachedTestData) {
+        testDataCache.delete(testDataCache.keys().next().value);
+    }
+
+    try {
+        return await entry.testData;
+    } catch (err) {
+        // Errors are not cached, since they may be caused by something other than the files.
+        if (testDataCache.get(dataName) === entry) {
+            testDataCache.delete(dataName);
+        }
+        throw err;
+    }
+}
+
+// Remembers something derived from the test data (e.g. the executable name of the compiled
+// special judge), which is dropped together with the test data when it changes.
+// Failures are not remembered, neither is anything `isValid` rejects when it is reused.
+export async function rememberForTestData<T>(testData: TestData, key: string, derive: () => Promise<T>,
+    isValid?: (value: T) => Promise<boolean>): Promise<T> {
+    if (!derivedCache.has(testData)) {
+        derivedCache.set(testData, new Map());
+    }
+    const derived = derivedCache.get(testData);
+    if (derived.has(key) && isValid != null) {
+        const promise = derived.get(key);
+        if (!await isValid(await promise) && derived.get(key) === promise) {
+            derived.delete(key);
+        }
+    }
+    if (!derived.has(key)) {
+        const promise = derive();
+        derived.set(key, promise);
+        promise.catch(() => {
+            if (derived.get(key) === promise) {
+                derived.delete(key);
+            }
+        });
+    }
+    return derived.get(key);
+}
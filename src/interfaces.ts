@@ -2,7 +2,10 @@ export enum RPCTaskType {
     Compile = 1,
     RunStandard = 2,
     RunSubmitAnswer = 3,
-    RunInteraction = 4
+    RunInteraction = 4,
+    RunValidation = 5,
+    RunGenerator = 6,
+    RunMultiPhase = 7
 }
 
 export interface RPCRequest {
@@ -15,12 +18,15 @@ export interface CompileTask {
     language: string;
     extraFiles: FileContent[];
     binaryName: string;
+    sourceFileName?: string; // Defaults to `sourceFileName` of the language, which is the file being compiled
 }
 
 export interface TestcaseDetails {
     type: TestcaseResultType;
     time: number;
     memory: number;
+    timeLimit?: number; // The effective limits, in the same units as time and memory
+    memoryLimit?: number;
     input?: FileContent;
     output?: FileContent; // Output in test data
     scoringRate: number; // e.g. 0.5
@@ -29,17 +35,43 @@ export interface TestcaseDetails {
     spjMessage?: string;
     systemMessage?: string;
     diagnostics?: string;
+    phases?: PhaseUsage[]; // For multi-phase problems, time and memory are the total and the maximum of all phases
+    interactionLog?: string; // Data passed between the user's program and the interactor
+    interactorTime?: number;
+    interactorMemory?: number;
 };
 
+export interface PhaseUsage {
+    time: number;
+    memory: number;
+    timeLimit?: number;
+    memoryLimit?: number;
+}
+
+// How much of the result of a testcase is shown.
+export enum TestcaseVisibility {
+    Sample = 1, // Everything, including the input, the answer and the output
+    Public = 2, // The verdict, the time and memory usage only
+    Hidden = 3 // Nothing but the score of the subtask
+}
+
 export interface TestcaseResult {
     status: TaskStatus;
     result?: TestcaseDetails;
     errorMessage?: string;
+    visibility?: TestcaseVisibility; // Defaults to Sample
 }
 
 export interface SubtaskResult {
     score?: number;
     cases: TestcaseResult[];
+    hidden?: HiddenTestcasesSummary; // Set if the details of some testcases are hidden
+}
+
+export interface HiddenTestcasesSummary {
+    type: TestcaseResultType; // The first verdict other than Accepted
+    time: number; // Sum of the time usage
+    memory: number; // Maximum of the memory usage
 }
 
 export enum ErrorType {
@@ -54,11 +86,13 @@ export interface CompilationResult {
 
 export interface JudgeResult {
     subtasks?: SubtaskResult[];
+    maxScore?: number;
 }
 
 export interface OverallResult {
     error?: ErrorType;
     systemMessage?: string;
+    warnings?: string[]; // Warnings about the test data, only sent with the full result
     compile?: CompilationResult;
     judge?: JudgeResult;
 }
@@ -84,6 +118,34 @@ export interface StandardRunTask {
     fileIOOutput?: string;
     userExecutableName: string;
     spjExecutableName?: string;
+    spjProtocol?: SpecialJudgeProtocol;
+    comparator?: ComparatorOptions;
+    // If set, the output is saved to this path (relative to the test data directory) instead of being judged.
+    saveOutputAs?: string;
+}
+
+// The user's program is run once per phase. The output of a phase, processed by the manager
+// if there is one, is the input of the next phase, and the output of the last phase is judged.
+export interface MultiPhaseRunTask {
+    testDataName: string;
+    inputData: string;
+    answerData: string;
+    phases: PhaseRunTask[];
+    userExecutableName: string;
+    managerExecutableName?: string;
+    spjExecutableName?: string;
+    spjProtocol?: SpecialJudgeProtocol;
+    comparator?: ComparatorOptions;
+}
+
+export interface PhaseRunTask {
+    args: string[];
+    time: number;
+    memory: number;
+}
+
+export interface MultiPhaseRunResult extends StandardRunResult {
+    phases: PhaseUsage[]; // Phases not run are omitted
 }
 
 export interface InteractionRunTask {
@@ -94,6 +156,30 @@ export interface InteractionRunTask {
     memory: number;
     userExecutableName: string;
     interactorExecutableName: string;
+    processes?: number; // Number of user processes, defaults to 1
+    connection?: InteractionConnection;
+    transcript?: boolean; // Record the data passed between the programs
+    interactorTime?: number; // Defaults to twice the time limit of the user's program
+    interactorMemory?: number; // Defaults to the memory limit of the user's program
+    // With the testlib protocol, the interactor is invoked as `interactor input tout answer` and reports with its exit code,
+    // after which the checker, if any, judges `tout`.
+    interactorProtocol?: SpecialJudgeProtocol;
+    spjExecutableName?: string;
+    spjProtocol?: SpecialJudgeProtocol;
+}
+
+export interface InteractionRunResult extends StandardRunResult {
+    interactorTime: number;
+    interactorMemory: number;
+    interactionLog?: string;
+}
+
+export enum InteractionConnection {
+    // The stdin and stdout of the user's program are connected to the stdout and stdin of the interactor.
+    Stdio = 1,
+    // The i-th user process talks through its stdin and stdout to named pipes `user<i>.in` and `user<i>.out`
+    // (in the interactor's working directory), whose names are passed to the interactor as arguments.
+    Fifo = 2
 }
 
 export interface AnswerSubmissionRunTask {
@@ -102,6 +188,33 @@ export interface AnswerSubmissionRunTask {
     answerData: string;
     userAnswer: Buffer;
     spjExecutableName?: string;
+    spjProtocol?: SpecialJudgeProtocol;
+    comparator?: ComparatorOptions;
+}
+
+export interface ValidationRunTask {
+    testDataName: string;
+    inputData: string;
+    validatorExecutableName: string;
+}
+
+export interface ValidationRunResult {
+    pass: boolean;
+    message: string;
+}
+
+export interface GenerationRunTask {
+    testDataName: string;
+    generatorExecutableName: string;
+    args: string[];
+    outputData: string; // Path of the generated file relative to the test data directory
+    time?: number; // Defaults to the limits of special judges
+    memory?: number;
+}
+
+export interface GenerationRunResult {
+    success: boolean;
+    message: string;
 }
 
 export interface AnswerSubmissionRunResult {
@@ -110,6 +223,29 @@ export interface AnswerSubmissionRunResult {
     result: TestcaseResultType;
 }
 
+export enum SpecialJudgeProtocol {
+    Syzoj = 1, // Reads `input`, `user_out` and `answer`, writes `score.txt` and `message.txt`
+    Testlib = 2 // Invoked as `checker input output answer`, reports with its exit code
+}
+
+export enum ComparatorType {
+    Diff = 1, // `diff -Bbq`, ignoring blank lines and changes in the amount of whitespaces
+    Tokens = 2,
+    Lines = 3,
+    CaseInsensitive = 4,
+    FloatingPoint = 5,
+    UnorderedLines = 6,
+    Bytes = 7
+}
+
+export interface ComparatorOptions {
+    type: ComparatorType;
+    // Only for ComparatorType.FloatingPoint, both 1e-6 by default.
+    // Numbers within either of the differences are accepted.
+    absoluteEpsilon?: number;
+    relativeEpsilon?: number;
+}
+
 export enum TaskStatus {
     Waiting = 0,
     Running = 1,
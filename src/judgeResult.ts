@@ -7,6 +7,7 @@ export interface JudgeResultSubmit {
     time: number;
     memory: number;
     score: number;
+    maxScore: number;
     statusNumber: number;
     statusString: string;
     result: OverallResult;
@@ -41,6 +42,7 @@ export function convertResult(taskId: string, source: OverallResult): JudgeResul
     let time = null,
         memory = null,
         score = null,
+        maxScore = null,
         done = true,
         statusString = null;
 
@@ -55,11 +57,16 @@ export function convertResult(taskId: string, source: OverallResult): JudgeResul
         }
     } else if (source.judge != null && source.judge.subtasks != null) {
         const forEveryTestcase = function <TParam>(map: (v: TestcaseDetails) => TParam, reduce: (v: TParam[]) => TParam): TParam {
-            const list = source.judge.subtasks.map(s => reduce(s.cases.filter(c => c.result != null).map(c => map(c.result))));
+            // Hidden testcases are only available as a summary of the subtask,
+            // which is omitted too if only the score is shown.
+            const list = source.judge.subtasks.map(s => s.cases.filter(c => c.result != null).map(c => map(c.result))
+                .concat(s.hidden ? [map(s.hidden as TestcaseDetails)] : []))
+                .filter(values => values.length).map(reduce);
             if (list.every(x => x == null)) return null;
             else return reduce(list);
         }
         
+        maxScore = source.judge.maxScore != null ? source.judge.maxScore : null;
         time = forEveryTestcase(c => c.time, _.sum);
         memory = forEveryTestcase(c => c.memory, _.max);
 
@@ -69,7 +76,7 @@ export function convertResult(taskId: string, source: OverallResult): JudgeResul
         } else {
             score = _.sum(source.judge.subtasks.map(s => s.score));
             const finalResult = forEveryTestcase(c => c.type, firstNonAC);
-            statusString = statusToString[finalResult];
+            statusString = finalResult != null ? statusToString[finalResult] : null;
         }
     } else {
         statusString = systemError;
@@ -80,6 +87,7 @@ export function convertResult(taskId: string, source: OverallResult): JudgeResul
         time: time,
         memory: memory,
         score: score,
+        maxScore: maxScore,
         statusNumber: done ? TaskStatus.Done : TaskStatus.Failed,
         statusString: statusString,
         result: source
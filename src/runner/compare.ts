@@ -0,0 +1,283 @@
+import fse = require('fs-extra');
+import pathLib = require('path');
+import { StringDecoder, NodeStringDecoder } from 'string_decoder';
+
+import { ComparatorType, ComparatorOptions } from '../interfaces';
+import { runDiff, DiffResult } from './run';
+import { describeDifference } from './difference';
+
+type Comparator = (userOutput: OutputReader, answer: OutputReader, options: ComparatorOptions) => Promise<DiffResult>;
+
+const accepted: DiffResult = { pass: true, message: '' };
+
+// The outputs are read in chunks of this size, so that a huge output never has to be loaded into memory.
+const readChunkSize = 64 * 1024;
+// A token or line of the user's output is cut off after this many characters more than the size of the answer,
+// as it can't match anything in the answer anyway.
+const userItemLengthSlack = 4096;
+
+const defaultFloatEpsilon = 1e-6;
+const decimalNumber = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+interface OutputItem {
+    content: string;
+    truncated: boolean; // The item was too long and only the beginning of it is in `content`
+}
+
+async function readChunk(fd: number, buffer: Buffer): Promise<number> {
+    let length = 0;
+    while (length < buffer.length) {
+        const bytesRead = await fse.read(fd, buffer, length, buffer.length - length, null) as any as number;
+        if (bytesRead === 0) {
+            break;
+        }
+        length += bytesRead;
+    }
+    return length;
+}
+
+// Reads a file piece by piece, as tokens, lines or raw bytes. A missing file is read as an empty one.
+class OutputReader {
+    private buffer = '';
+    private position = 0;
+    private ended: boolean;
+    private decoder: NodeStringDecoder = new StringDecoder('utf8');
+    private chunk = new Buffer(readChunkSize);
+    private pendingBlankLines = 0;
+    private pendingLine: OutputItem = null;
+
+    private constructor(private fd: number, readonly size: number, private itemLengthLimit: number) {
+        this.ended = fd == null;
+    }
+
+    static async open(path: string, itemLengthLimit: number = Infinity): Promise<OutputReader> {
+        let fd: number;
+        try {
+            fd = await fse.open(path, 'r');
+        } catch (e) {
+            if (e.code !== 'ENOENT') {
+                throw e;
+            }
+            return new OutputReader(null, 0, itemLengthLimit);
+        }
+        return new OutputReader(fd, (await fse.fstat(fd)).size, itemLengthLimit);
+    }
+
+    async close() {
+        if (this.fd != null) {
+            await fse.close(this.fd);
+            this.fd = null;
+        }
+    }
+
+    // Returns false if there is nothing more to read.
+    private async fill(): Promise<boolean> {
+        this.buffer = this.buffer.substr(this.position);
+        this.position = 0;
+        while (!this.ended) {
+            const length = await readChunk(this.fd, this.chunk);
+            const text = length === 0 ? this.decoder.end() : this.decoder.write(this.chunk.slice(0, length));
+            this.ended = length === 0;
+            if (text !== '') {
+                this.buffer += text;
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // Reads up to the next match of `separator`, which is skipped. Leading matches of `skip` are skipped first.
+    private async nextItem(skip: RegExp, separator: RegExp): Promise<OutputItem> {
+        for (; ;) {
+            if (skip) {
+                skip.lastIndex = this.position;
+                const match = skip.exec(this.buffer);
+                this.position = match ? match.index : this.buffer.length;
+            }
+            if (this.position < this.buffer.length) {
+                break;
+            }
+            if (!await this.fill()) {
+                return null;
+            }
+        }
+
+        const item = { content: '', truncated: false };
+        for (; ;) {
+            separator.lastIndex = this.position;
+            const match = separator.exec(this.buffer);
+            const end = match ? match.index : this.buffer.length;
+            if (!item.truncated) {
+                item.content += this.buffer.substring(this.position, end);
+                if (item.content.length > this.itemLengthLimit) {
+                    item.content = item.content.substr(0, this.itemLengthLimit);
+                    item.truncated = true;
+                }
+            }
+            if (match) {
+                this.position = end + match[0].length;
+                return item;
+            }
+            this.position = end;
+            if (!await this.fill()) {
+                return item;
+            }
+        }
+    }
+
+    nextToken(): Promise<OutputItem> {
+        return this.nextItem(/\S/g, /\s/g);
+    }
+
+    // Whitespaces at the end of lines and blank lines at the end of the file are not significant.
+    async nextLine(): Promise<OutputItem> {
+        if (this.pendingBlankLines > 0) {
+            this.pendingBlankLines--;
+            return { content: '', truncated: false };
+        }
+        if (this.pendingLine != null) {
+            const line = this.pendingLine;
+            this.pendingLine = null;
+            return line;
+        }
+        let blankLines = 0;
+        for (; ;) {
+            const line = await this.nextItem(null, /\n/g);
+            if (line == null) {
+                return null;
+            }
+            line.content = line.content.replace(/\s+$/, '');
+            if (line.content !== '' || line.truncated) {
+                if (blankLines === 0) {
+                    return line;
+                }
+                this.pendingLine = line;
+                this.pendingBlankLines = blankLines - 1;
+                return { content: '', truncated: false };
+            }
+            blankLines++;
+        }
+    }
+
+    // Fills `buffer` as much as possible, returning the number of bytes read.
+    async nextBytes(buffer: Buffer): Promise<number> {
+        return this.fd == null ? 0 : await readChunk(this.fd, buffer);
+    }
+}
+
+async function compareSequence(userOutput: OutputReader, answer: OutputReader, itemName: string,
+    next: (reader: OutputReader) => Promise<OutputItem>,
+    equals: (userItem: string, answerItem: string) => boolean): Promise<DiffResult> {
+    for (let i = 0; ; i++) {
+        const userItem = await next(userOutput), answerItem = await next(answer);
+        if (userItem == null && answerItem == null) {
+            return accepted;
+        } else if (userItem == null) {
+            return {
+                pass: false,
+                message: describeDifference(`Your output ended before ${itemName} ${i + 1}.`, answerItem.content, null)
+            };
+        } else if (answerItem == null) {
+            return {
+                pass: false,
+                message: describeDifference(`Your output has extra content on ${itemName} ${i + 1}.`, null, userItem.content)
+            };
+        } else if (userItem.truncated || !equals(userItem.content, answerItem.content)) {
+            return {
+                pass: false,
+                message: describeDifference(`First difference on ${itemName} ${i + 1}.`, answerItem.content, userItem.content)
+            };
+        }
+    }
+}
+
+// Tokens that are not decimal numbers, e.g. `0x10' or `Infinity', are compared as strings.
+function floatEquals(userToken: string, answerToken: string, options: ComparatorOptions): boolean {
+    if (!decimalNumber.test(userToken) || !decimalNumber.test(answerToken)) {
+        return userToken === answerToken;
+    }
+    const userValue = Number(userToken), answerValue = Number(answerToken);
+    const difference = Math.abs(userValue - answerValue);
+    const absoluteEpsilon = options.absoluteEpsilon == null ? defaultFloatEpsilon : options.absoluteEpsilon,
+        relativeEpsilon = options.relativeEpsilon == null ? defaultFloatEpsilon : options.relativeEpsilon;
+    return difference <= absoluteEpsilon || difference <= relativeEpsilon * Math.abs(answerValue);
+}
+
+const comparators: { [type: number]: Comparator } = {
+    [ComparatorType.Tokens]: (userOutput, answer) =>
+        compareSequence(userOutput, answer, 'token', r => r.nextToken(), (u, a) => u === a),
+    [ComparatorType.CaseInsensitive]: (userOutput, answer) =>
+        compareSequence(userOutput, answer, 'token', r => r.nextToken(),
+            (u, a) => u.toLowerCase() === a.toLowerCase()),
+    [ComparatorType.FloatingPoint]: (userOutput, answer, options) =>
+        compareSequence(userOutput, answer, 'token', r => r.nextToken(),
+            (u, a) => floatEquals(u, a, options)),
+    [ComparatorType.Lines]: (userOutput, answer) =>
+        compareSequence(userOutput, answer, 'line', r => r.nextLine(), (u, a) => u === a),
+    [ComparatorType.UnorderedLines]: async (userOutput, answer) => {
+        // Only the lines of the answer are kept in memory, counting down as they are found in the user's output.
+        const answerLines = new Map<string, number>();
+        for (let line: OutputItem; (line = await answer.nextLine()) != null;) {
+            answerLines.set(line.content, (answerLines.get(line.content) || 0) + 1);
+        }
+        let unexpected: string = null;
+        for (let line: OutputItem; (line = await userOutput.nextLine()) != null;) {
+            const count = line.truncated ? 0 : answerLines.get(line.content) || 0;
+            if (count > 0) {
+                answerLines.set(line.content, count - 1);
+            } else if (unexpected == null) {
+                unexpected = line.content;
+            }
+        }
+        const missing = Array.from(answerLines.keys()).find(l => answerLines.get(l) > 0);
+        if (missing != null) {
+            return { pass: false, message: describeDifference(`A line of the answer is missing in your output.`, missing, null) };
+        }
+        if (unexpected != null) {
+            return { pass: false, message: describeDifference(`Your output contains an unexpected line.`, null, unexpected) };
+        }
+        return accepted;
+    },
+    [ComparatorType.Bytes]: async (userOutput, answer) => {
+        const userChunk = new Buffer(readChunkSize), answerChunk = new Buffer(readChunkSize);
+        for (let offset = 0; ; offset += readChunkSize) {
+            const [userLength, answerLength] = [await userOutput.nextBytes(userChunk), await answer.nextBytes(answerChunk)];
+            const length = Math.min(userLength, answerLength);
+            let index = 0;
+            while (index < length && userChunk[index] === answerChunk[index]) {
+                index++;
+            }
+            if (index < Math.max(userLength, answerLength)) {
+                return { pass: false, message: `Output differs from the answer at byte ${offset + index + 1}.` };
+            }
+            if (userLength < readChunkSize) {
+                return accepted;
+            }
+        }
+    }
+};
+
+// Compares two files in `dataDir` with the given comparator.
+// All comparators except `diff' are run inside the runner without spawning a process.
+export async function compareOutput(dataDir: string, userFile: string, answerFile: string,
+    options: ComparatorOptions): Promise<DiffResult> {
+    if (options == null || options.type === ComparatorType.Diff) {
+        return await runDiff(dataDir, userFile, answerFile);
+    }
+
+    const comparator = comparators[options.type];
+    if (comparator == null) {
+        throw new Error(`Comparator type ${options.type} not supported!`);
+    }
+    const answer = await OutputReader.open(pathLib.join(dataDir, answerFile));
+    try {
+        const userOutput = await OutputReader.open(pathLib.join(dataDir, userFile), answer.size + userItemLengthSlack);
+        try {
+            return await comparator(userOutput, answer, options);
+        } finally {
+            await userOutput.close();
+        }
+    } finally {
+        await answer.close();
+    }
+}
@@ -35,7 +35,8 @@ export async function compile(task: CompileTask): Promise<CompilationResult> {
     }
 
     const language = getLanguage(task.language);
-    const srcPath = pathLib.join(srcDir, language.sourceFileName);
+    // With a grader, the grader is compiled as `sourceFileName` of the language, and includes the user's code.
+    const srcPath = pathLib.join(srcDir, task.sourceFileName || language.sourceFileName);
     writeTasks.push(fse.writeFile(srcPath, task.code, { encoding: 'utf8' }));
     await Promise.all(writeTasks);
 
@@ -24,6 +24,7 @@ export interface ConfigStructure {
     spjMemoryLimit: number;
     sandbox: SandboxConfigBase;
     outputLimit: number;
+    generatorOutputLimit: number;
     binaryDirectory: string;
     dataDisplayLimit: number;
 }
@@ -53,6 +54,7 @@ export const globalConfig: ConfigStructure = {
     priority: sharedConfig.Priority,
     redis: sharedConfig.RedisUrl,
     outputLimit: sharedConfig.OutputLimit,
+    generatorOutputLimit: sharedConfig.GeneratorOutputLimit || 512 * 1024 * 1024,
     stderrDisplayLimit: sharedConfig.StderrDisplayLimit,
     compilerMessageLimit: sharedConfig.CompilerMessageLimit,
     spjTimeLimit: sharedConfig.SpjTimeLimit,
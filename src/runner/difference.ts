@@ -0,0 +1,73 @@
+import { globalConfig as Cfg } from './config';
+
+const endOfOutput = '<end of output>';
+
+interface NumberedLine {
+    lineNumber: number;
+    content: string;
+    normalized: string;
+}
+
+function firstDifferentColumn(a: string, b: string): number {
+    const length = Math.min(a.length, b.length);
+    let column = 0;
+    while (column < length && a[column] === b[column]) {
+        column++;
+    }
+    return column;
+}
+
+// Cuts `content` down to `limit` characters, keeping the part around `column`.
+export function excerpt(content: string, column: number, limit: number): string {
+    if (content.length <= limit) {
+        return content;
+    }
+    const start = Math.max(0, column - Math.floor(limit / 2));
+    return (start > 0 ? '...' : '') + content.substr(start, limit) + (start + limit < content.length ? '...' : '');
+}
+
+// `expected` or `found` being null means the corresponding output has ended.
+// The whole message is kept within StderrDisplayLimit.
+export function describeDifference(position: string, expected: string, found: string): string {
+    const column = firstDifferentColumn(expected || '', found || '');
+    const limit = Math.max(Math.floor((Cfg.stderrDisplayLimit - position.length) / 2) - 16, 16);
+    return `${position}\n` +
+        `Expected: ${expected == null ? endOfOutput : excerpt(expected, column, limit)}\n` +
+        `Found:    ${found == null ? endOfOutput : excerpt(found, column, limit)}`;
+}
+
+// Emulates `diff -Bb`: blank lines are ignored and whitespaces are compared by presence, not amount.
+function nonBlankLines(content: string): NumberedLine[] {
+    return content.split('\n')
+        .map((line, index) => ({
+            lineNumber: index + 1,
+            content: line.replace(/\r$/, ''),
+            normalized: line.replace(/\s+/g, ' ').replace(/ $/, '')
+        }))
+        .filter(line => line.normalized !== '');
+}
+
+// Returns null if no difference is found.
+// A truncated output is only a prefix of the actual one, so its end is not reported as a difference.
+export function describeFirstLineDifference(userOutput: string, answer: string,
+    userOutputTruncated = false, answerTruncated = false): string {
+    const userLines = nonBlankLines(userOutput), answerLines = nonBlankLines(answer);
+    for (let i = 0; i < Math.max(userLines.length, answerLines.length); i++) {
+        const userLine = userLines[i], answerLine = answerLines[i];
+        if ((userLine == null && userOutputTruncated) || (answerLine == null && answerTruncated)) {
+            return null;
+        } else if (userLine == null) {
+            return describeDifference(`Your output ended before line ${answerLine.lineNumber} of the answer.`,
+                answerLine.content, null);
+        } else if (answerLine == null) {
+            return describeDifference(`Your output has extra content on line ${userLine.lineNumber}.`,
+                null, userLine.content);
+        } else if (userLine.normalized !== answerLine.normalized) {
+            const position = userLine.lineNumber === answerLine.lineNumber
+                ? `First difference on line ${userLine.lineNumber}.`
+                : `First difference on line ${userLine.lineNumber} of your output (line ${answerLine.lineNumber} of the answer).`;
+            return describeDifference(position, answerLine.content, userLine.content);
+        }
+    }
+    return null;
+}
@@ -6,7 +6,7 @@ import util = require('util');
 import rmq = require('./rmq');
 import { RPCRequest, RPCTaskType } from '../interfaces';
 import { compile } from './compile';
-import { judgeStandard, judgeAnswerSubmission, judgeInteraction } from './judge';
+import { judgeStandard, judgeAnswerSubmission, judgeInteraction, judgeValidation, judgeGeneration, judgeMultiPhase } from './judge';
 
 (async function () {
     winston.info("Runner starts.");
@@ -23,6 +23,12 @@ import { judgeStandard, judgeAnswerSubmission, judgeInteraction } from './judge'
             return await judgeAnswerSubmission(task.task);
         } else if (task.type === RPCTaskType.RunInteraction) {
             return await judgeInteraction(task.task);
+        } else if (task.type === RPCTaskType.RunValidation) {
+            return await judgeValidation(task.task);
+        } else if (task.type === RPCTaskType.RunGenerator) {
+            return await judgeGeneration(task.task);
+        } else if (task.type === RPCTaskType.RunMultiPhase) {
+            return await judgeMultiPhase(task.task);
         } else {
             winston.warn("Task type unsupported");
             throw new Error(`Task type ${task.type} not supported!`);
@@ -3,17 +3,21 @@ import randomString = require('randomstring');
 import util = require('util');
 import fse = require('fs-extra');
 import winston = require('winston');
+import _ = require('lodash');
+import child_process = require('child_process');
 const syspipe = require('syspipe');
 
 import { SandboxStatus } from 'simple-sandbox/lib/interfaces';
-import { TestcaseResultType, StandardRunTask, StandardRunResult, InteractionRunTask, AnswerSubmissionRunTask, AnswerSubmissionRunResult } from '../interfaces';
+import { TestcaseResultType, SpecialJudgeProtocol, ComparatorOptions, InteractionConnection, StandardRunTask, StandardRunResult, InteractionRunTask, InteractionRunResult, AnswerSubmissionRunTask, AnswerSubmissionRunResult, ValidationRunTask, ValidationRunResult, GenerationRunTask, GenerationRunResult, MultiPhaseRunTask, MultiPhaseRunResult, PhaseUsage } from '../interfaces';
 import { createOrEmptyDir, tryEmptyDir } from './utils';
 import { readFileLength, tryReadFile } from '../utils';
 import { globalConfig as Cfg } from './config';
-import { runProgram, runDiff } from './run';
+import { runProgram, RunResult } from './run';
+import { compareOutput } from './compare';
 import { Language } from '../languages';
 import { fetchBinary } from './executable';
 import { signals } from './signals';
+import { InteractionTranscript } from './transcript';
 
 const workingDir = `${Cfg.workingDirectory}/data`;
 const spjWorkingDir = `${Cfg.workingDirectory}/data-spj`;
@@ -37,7 +41,7 @@ function getStatusByScore(score: number): TestcaseResultType {
     }
 }
 
-async function runSpj(spjBinDir: string, spjLanguage: Language): Promise<SpjResult> {
+async function runSyzojSpj(spjBinDir: string, spjLanguage: Language): Promise<SpjResult> {
     const scoreFileName = 'score.txt';
     const messageFileName = 'message.txt';
     const [resultPromise] = await runProgram(spjLanguage,
@@ -77,6 +81,87 @@ async function runSpj(spjBinDir: string, spjLanguage: Language): Promise<SpjResu
     }
 }
 
+// Exit codes of testlib checkers, see `TResult` in testlib.h.
+enum TestlibExitCode {
+    Accepted = 0,
+    WrongAnswer = 1,
+    PresentationError = 2,
+    Fail = 3,
+    Points = 7,
+    PartiallyCorrect = 16 // `_pc(n)` exits with 16 + n
+}
+
+// Interprets the exit code and the message (written to stderr) of a testlib checker or interactor.
+// The points reported by `quitp` are the ratio of the full score, in [0, 1],
+// while `n` of `quitf(_pc(n), ...)` is the percentage of the full score, in [0, 100].
+function parseTestlibResult(exitCode: number, message: string, programName = 'Checker'): SpjResult {
+    switch (exitCode) {
+        case TestlibExitCode.Accepted:
+            return { status: TestcaseResultType.Accepted, message: message, score: 1 };
+        case TestlibExitCode.WrongAnswer:
+            return { status: TestcaseResultType.WrongAnswer, message: message, score: 0 };
+        case TestlibExitCode.PresentationError:
+            return { status: TestcaseResultType.WrongAnswer, message: `Presentation Error: ${message}`, score: 0 };
+        case TestlibExitCode.Points: {
+            const matchResult = /^\s*points\s+(\S+)/.exec(message || '');
+            const score = matchResult && Number(matchResult[1]);
+            if (matchResult == null || isNaN(score) || score < 0 || score > 1) {
+                return {
+                    status: TestcaseResultType.JudgementFailed,
+                    message: `${programName} returned an unrecognized score, expected a ratio in [0, 1]: ${message}`,
+                    score: 0
+                };
+            }
+            return { status: getStatusByScore(score * spjFullScore), message: message, score: score };
+        }
+        case TestlibExitCode.Fail:
+            return { status: TestcaseResultType.JudgementFailed, message: `${programName} failed: ${message}`, score: 0 };
+        default:
+            if (exitCode >= TestlibExitCode.PartiallyCorrect && exitCode <= TestlibExitCode.PartiallyCorrect + spjFullScore) {
+                const score = (exitCode - TestlibExitCode.PartiallyCorrect) / spjFullScore;
+                return { status: getStatusByScore(score * spjFullScore), message: message, score: score };
+            }
+            return {
+                status: TestcaseResultType.JudgementFailed,
+                message: `${programName} exited with an unrecognized code ${exitCode}: ${message}`,
+                score: 0
+            };
+    }
+}
+
+async function runTestlibChecker(spjBinDir: string, spjLanguage: Language): Promise<SpjResult> {
+    const messageFileName = 'message.txt';
+    const [resultPromise] = await runProgram(spjLanguage,
+        spjBinDir,
+        spjWorkingDir,
+        Cfg.spjTimeLimit,
+        Cfg.spjMemoryLimit * 1024 * 1024,
+        null,
+        null,
+        messageFileName,
+        ['input', 'user_out', 'answer']);
+    const spjRunResult = await resultPromise;
+
+    if (spjRunResult.result.status !== SandboxStatus.OK) {
+        return {
+            status: TestcaseResultType.JudgementFailed,
+            message: `Special Judge ${SandboxStatus[spjRunResult.result.status]} encountered.`,
+            score: 0
+        };
+    }
+
+    const messageString = await readFileLength(pathLib.join(spjWorkingDir, messageFileName), Cfg.stderrDisplayLimit);
+    return parseTestlibResult(spjRunResult.result.code, messageString);
+}
+
+function runSpj(spjBinDir: string, spjLanguage: Language, protocol: SpecialJudgeProtocol): Promise<SpjResult> {
+    if (protocol === SpecialJudgeProtocol.Testlib) {
+        return runTestlibChecker(spjBinDir, spjLanguage);
+    } else {
+        return runSyzojSpj(spjBinDir, spjLanguage);
+    }
+}
+
 export async function judgeAnswerSubmission(task: AnswerSubmissionRunTask)
     : Promise<AnswerSubmissionRunResult> {
     try {
@@ -101,7 +186,7 @@ export async function judgeAnswerSubmission(task: AnswerSubmissionRunTask)
             if (inputFilePath != null)
                 await fse.copy(inputFilePath, pathLib.join(spjWorkingDir, 'input'));
             winston.debug(`Running spj`);
-            const spjResult = await runSpj(spjBinDir, spjLanguage);
+            const spjResult = await runSpj(spjBinDir, spjLanguage, task.spjProtocol);
             winston.debug('Judgement done!!');
 
             return {
@@ -111,7 +196,7 @@ export async function judgeAnswerSubmission(task: AnswerSubmissionRunTask)
             };
         } else {
             winston.debug(`Running diff`);
-            const diffResult = await runDiff(spjWorkingDir, 'user_out', 'answer');
+            const diffResult = await compareOutput(spjWorkingDir, 'user_out', 'answer', task.comparator);
             winston.debug('Judgement done!!');
             return {
                 result: diffResult.pass ? TestcaseResultType.Accepted : TestcaseResultType.WrongAnswer,
@@ -124,6 +209,150 @@ export async function judgeAnswerSubmission(task: AnswerSubmissionRunTask)
     }
 }
 
+// The validator reads the input from stdin, and exits with a non-zero code
+// (with messages written to stderr) if the input is invalid, as testlib validators do.
+export async function judgeValidation(task: ValidationRunTask)
+    : Promise<ValidationRunResult> {
+    try {
+        await createOrEmptyDir(spjWorkingDir);
+        const inputFilePath = pathLib.join(Cfg.testDataDirectory, task.testDataName, task.inputData);
+        await fse.copy(inputFilePath, pathLib.join(spjWorkingDir, 'input'));
+
+        const [validatorBinDir, validatorLanguage] = await fetchBinary(task.validatorExecutableName);
+        const messageFileName = 'message.txt';
+        winston.debug(`Running validator`);
+        const [resultPromise] = await runProgram(validatorLanguage,
+            validatorBinDir,
+            spjWorkingDir,
+            Cfg.spjTimeLimit,
+            Cfg.spjMemoryLimit * 1024 * 1024,
+            'input',
+            null,
+            messageFileName);
+        const validatorResult = await resultPromise;
+        const message = await readFileLength(pathLib.join(spjWorkingDir, messageFileName), Cfg.stderrDisplayLimit);
+
+        // A validator that fails to finish says nothing about the input, so it is a system error.
+        if (validatorResult.result.status !== SandboxStatus.OK) {
+            throw new Error(`Validator ${SandboxStatus[validatorResult.result.status]} encountered on ${task.inputData}.`
+                + (message ? `\n${message}` : ''));
+        }
+        return { pass: validatorResult.result.code === 0, message: message };
+    } finally {
+        await tryEmptyDir(spjWorkingDir);
+    }
+}
+
+// Copies a file into the test data directory, unless it already exists, e.g. saved by another runner.
+// It is written to a temporary file first and then linked, so that a partially copied file is never seen.
+async function saveToTestData(src: string, dest: string): Promise<void> {
+    const tempFilePath = `${dest}.${randomString.generate(10)}.tmp`;
+    await fse.mkdirs(pathLib.dirname(dest));
+    await fse.copy(src, tempFilePath);
+    try {
+        // Unlike renaming, linking fails if the destination exists.
+        await fse.link(tempFilePath, dest);
+    } catch (err) {
+        if (err.code !== 'EEXIST') {
+            throw err;
+        }
+    } finally {
+        await fse.remove(tempFilePath);
+    }
+}
+
+export async function judgeGeneration(task: GenerationRunTask)
+    : Promise<GenerationRunResult> {
+    const outputFilePath = pathLib.join(Cfg.testDataDirectory, task.testDataName, task.outputData);
+    // Another runner may have generated the same input.
+    if (await fse.exists(outputFilePath)) {
+        return { success: true, message: '' };
+    }
+
+    try {
+        await createOrEmptyDir(spjWorkingDir);
+        const [generatorBinDir, generatorLanguage] = await fetchBinary(task.generatorExecutableName);
+        const outputFileName = 'output', messageFileName = 'message.txt';
+        winston.debug(`Running generator with arguments ${util.inspect(task.args)}`);
+        const [resultPromise] = await runProgram(generatorLanguage,
+            generatorBinDir,
+            spjWorkingDir,
+            task.time || Cfg.spjTimeLimit,
+            (task.memory || Cfg.spjMemoryLimit) * 1024 * 1024,
+            null,
+            outputFileName,
+            messageFileName,
+            task.args,
+            Cfg.generatorOutputLimit);
+        const generatorResult = await resultPromise;
+        if (generatorResult.outputLimitExceeded) {
+            return { success: false, message: `Generator output limit (${Cfg.generatorOutputLimit} bytes) exceeded.` };
+        }
+        const message = await readFileLength(pathLib.join(spjWorkingDir, messageFileName), Cfg.stderrDisplayLimit);
+        if (generatorResult.result.status !== SandboxStatus.OK) {
+            return { success: false, message: `Generator ${SandboxStatus[generatorResult.result.status]} encountered.\n${message}` };
+        } else if (generatorResult.result.code !== 0) {
+            return { success: false, message: `Generator exited with code ${generatorResult.result.code}.\n${message}` };
+        }
+
+        await saveToTestData(pathLib.join(spjWorkingDir, outputFileName), outputFilePath);
+        return { success: true, message: message };
+    } finally {
+        await tryEmptyDir(spjWorkingDir);
+    }
+}
+
+// Returns the verdict (null if the program exited normally) and the system message of a run.
+function getRunStatus(runResult: RunResult): [TestcaseResultType, string] {
+    if (runResult.outputLimitExceeded) {
+        return [TestcaseResultType.OutputLimitExceeded, null];
+    } else if (runResult.result.status === SandboxStatus.TimeLimitExceeded) {
+        return [TestcaseResultType.TimeLimitExceeded, null];
+    } else if (runResult.result.status === SandboxStatus.MemoryLimitExceeded) {
+        return [TestcaseResultType.MemoryLimitExceeded, null];
+    } else if (runResult.result.status === SandboxStatus.RuntimeError) {
+        return [TestcaseResultType.RuntimeError, `Killed: ${signals[runResult.result.code]}`];
+    } else if (runResult.result.status !== SandboxStatus.OK) {
+        return [TestcaseResultType.RuntimeError, "Warning: corrupt sandbox result " + util.inspect(runResult.result)];
+    } else {
+        return [null, `Exited with return code ${runResult.result.code}`];
+    }
+}
+
+// Judges `user_out` in the spj working directory with the special judge, or the comparator if there is none.
+async function checkUserOutput(task: { spjExecutableName?: string, spjProtocol?: SpecialJudgeProtocol, comparator?: ComparatorOptions },
+    inputFilePath: string, answerFilePath: string, userCode: string)
+    : Promise<{ scoringRate: number, spjMessage: string, result: TestcaseResultType }> {
+    if (answerFilePath != null)
+        await fse.copy(answerFilePath, pathLib.join(spjWorkingDir, 'answer'));
+
+    if (task.spjExecutableName != null) {
+        const [spjBinDir, spjLanguage] = await fetchBinary(task.spjExecutableName);
+        winston.debug(`Using spj, language: ${spjLanguage.name}`);
+        if (inputFilePath != null)
+            await fse.copy(inputFilePath, pathLib.join(spjWorkingDir, 'input'));
+        await fse.writeFile(pathLib.join(spjWorkingDir, 'code'), userCode);
+        winston.debug(`Running spj`);
+        const spjResult = await runSpj(spjBinDir, spjLanguage, task.spjProtocol);
+        winston.debug('Judgement done!!');
+
+        return {
+            scoringRate: spjResult.score,
+            spjMessage: spjResult.message,
+            result: spjResult.status
+        };
+    } else {
+        winston.debug(`Running diff`);
+        const diffResult = await compareOutput(spjWorkingDir, 'user_out', 'answer', task.comparator);
+        winston.debug('Judgement done!!');
+        return {
+            scoringRate: diffResult.pass ? 1 : 0,
+            spjMessage: diffResult.message,
+            result: diffResult.pass ? TestcaseResultType.Accepted : TestcaseResultType.WrongAnswer,
+        };
+    }
+}
+
 export async function judgeStandard(task: StandardRunTask)
     : Promise<StandardRunResult> {
     winston.debug("Standard judge task...", task);
@@ -183,22 +412,7 @@ export async function judgeStandard(task: StandardRunTask)
         const time = Math.round(runResult.result.time / 1e6),
             memory = runResult.result.memory / 1024;
 
-        let status: TestcaseResultType = null, message = null;
-        if (runResult.outputLimitExceeded) {
-            status = TestcaseResultType.OutputLimitExceeded;
-        } else if (runResult.result.status === SandboxStatus.TimeLimitExceeded) {
-            status = TestcaseResultType.TimeLimitExceeded;
-        } else if (runResult.result.status === SandboxStatus.MemoryLimitExceeded) {
-            status = TestcaseResultType.MemoryLimitExceeded;
-        } else if (runResult.result.status === SandboxStatus.RuntimeError) {
-            message = `Killed: ${signals[runResult.result.code]}`;
-            status = TestcaseResultType.RuntimeError;
-        } else if (runResult.result.status !== SandboxStatus.OK) {
-            message = "Warning: corrupt sandbox result " + util.inspect(runResult.result);
-            status = TestcaseResultType.RuntimeError;
-        } else {
-            message = `Exited with return code ${runResult.result.code}`;
-        }
+        let [status, message] = getRunStatus(runResult);
 
         const [userOutput, userError] = await Promise.all([
             readFileLength(pathLib.join(workingDir, outputFileName), Cfg.dataDisplayLimit),
@@ -222,45 +436,186 @@ export async function judgeStandard(task: StandardRunTask)
         };
         if (status !== null) {
             return Object.assign({ scoringRate: 0, spjMessage: null, result: status }, partialResult);
+        } else if (task.saveOutputAs != null) {
+            // The output of a program that has failed is not a valid answer.
+            if (runResult.result.code !== 0) {
+                return Object.assign({ scoringRate: 0, spjMessage: null, result: TestcaseResultType.RuntimeError }, partialResult);
+            }
+            await saveToTestData(pathLib.join(spjWorkingDir, 'user_out'), pathLib.join(testDataPath, task.saveOutputAs));
+            return Object.assign({ scoringRate: 1, spjMessage: null, result: TestcaseResultType.Accepted }, partialResult);
         } else {
-            if (answerFilePath != null)
-                await fse.copy(answerFilePath, pathLib.join(spjWorkingDir, 'answer'));
-
-            if (task.spjExecutableName != null) {
-                const [spjBinDir, spjLanguage] = await fetchBinary(task.spjExecutableName);
-                winston.debug(`Using spj, language: ${spjLanguage.name}`);
-                if (inputFilePath != null)
-                    await fse.copy(inputFilePath, pathLib.join(spjWorkingDir, 'input'));
-                await fse.writeFile(pathLib.join(spjWorkingDir, 'code'), userCode);
-                winston.debug(`Running spj`);
-                const spjResult = await runSpj(spjBinDir, spjLanguage);
-                winston.debug('Judgement done!!');
-
-                return Object.assign({
-                    scoringRate: spjResult.score,
-                    spjMessage: spjResult.message,
-                    result: spjResult.status
-                }, partialResult);
+            return Object.assign(await checkUserOutput(task, inputFilePath, answerFilePath, userCode), partialResult);
+        }
+    } finally {
+        tryEmptyDir(workingDir);
+        tryEmptyDir(spjWorkingDir);
+    }
+}
+
+// The manager is run in the spj working directory between phases, with `input` (the input of the testcase)
+// and `output` (the output of the phase just finished), and the number of that phase as the argument.
+// What it writes to stdout is the input of the next phase. It exits with 1 to reject the output.
+async function runManager(managerBinDir: string, managerLanguage: Language, phaseNumber: number): Promise<SpjResult> {
+    const messageFileName = 'message.txt';
+    const [resultPromise] = await runProgram(managerLanguage,
+        managerBinDir,
+        spjWorkingDir,
+        Cfg.spjTimeLimit,
+        Cfg.spjMemoryLimit * 1024 * 1024,
+        null,
+        'next_input',
+        messageFileName,
+        [String(phaseNumber)]);
+    const managerResult = await resultPromise;
+
+    if (managerResult.result.status !== SandboxStatus.OK) {
+        return {
+            status: TestcaseResultType.JudgementFailed,
+            message: `Manager ${SandboxStatus[managerResult.result.status]} encountered.`,
+            score: 0
+        };
+    }
+    const message = await readFileLength(pathLib.join(spjWorkingDir, messageFileName), Cfg.stderrDisplayLimit);
+    if (managerResult.result.code === 0) {
+        return { status: null, message: message, score: 0 };
+    } else if (managerResult.result.code === 1) {
+        return { status: TestcaseResultType.WrongAnswer, message: message, score: 0 };
+    } else {
+        return {
+            status: TestcaseResultType.JudgementFailed,
+            message: `Manager exited with code ${managerResult.result.code}: ${message}`,
+            score: 0
+        };
+    }
+}
+
+export async function judgeMultiPhase(task: MultiPhaseRunTask)
+    : Promise<MultiPhaseRunResult> {
+    winston.debug("Multi-phase judge task...", task);
+    try {
+        const testDataPath = pathLib.join(Cfg.testDataDirectory, task.testDataName);
+        const inputFilePath = task.inputData != null ?
+            pathLib.join(testDataPath, task.inputData) : null;
+        const answerFilePath = task.answerData != null ?
+            pathLib.join(testDataPath, task.answerData) : null;
+
+        winston.debug("Creating directories...");
+        await createOrEmptyDir(spjWorkingDir);
+        if (inputFilePath != null)
+            await fse.copy(inputFilePath, pathLib.join(spjWorkingDir, 'input'));
+
+        winston.debug("Fetching binaries...");
+        const [binaryDirectory, language, userCode] = await fetchBinary(task.userExecutableName);
+        const [managerBinDir, managerLanguage] = task.managerExecutableName != null ?
+            await fetchBinary(task.managerExecutableName) : [null, null];
+
+        const phases: PhaseUsage[] = [];
+        let userOutput: string = null, userError: string = null, message: string = null;
+        const getResult = (status: TestcaseResultType, spjMessage: string): MultiPhaseRunResult => ({
+            time: _.sum(phases.map(p => p.time)),
+            memory: _.max(phases.map(p => p.memory)),
+            userOutput: userOutput,
+            userError: userError,
+            systemMessage: message,
+            scoringRate: 0,
+            spjMessage: spjMessage,
+            result: status,
+            phases: phases
+        });
+
+        const inputFileName = 'phase.in', outputFileName = 'phase.out', errorFileName = 'phase.err';
+        for (let index = 0; index < task.phases.length; index++) {
+            const phase = task.phases[index];
+            const phaseInputPath = index === 0 ? inputFilePath : pathLib.join(spjWorkingDir, 'next_input');
+            await createOrEmptyDir(workingDir);
+            if (phaseInputPath != null)
+                await fse.copy(phaseInputPath, pathLib.join(workingDir, inputFileName));
+
+            winston.debug(`Running phase ${index + 1}...`);
+            const [resultPromise] = await runProgram(language,
+                binaryDirectory,
+                workingDir,
+                phase.time,
+                phase.memory * 1024 * 1024,
+                phaseInputPath != null ? inputFileName : null,
+                outputFileName,
+                errorFileName,
+                phase.args);
+            const runResult = await resultPromise;
+            phases.push({ time: Math.round(runResult.result.time / 1e6), memory: runResult.result.memory / 1024 });
+
+            let status: TestcaseResultType;
+            [status, message] = getRunStatus(runResult);
+            [userOutput, userError] = await Promise.all([
+                readFileLength(pathLib.join(workingDir, outputFileName), Cfg.dataDisplayLimit),
+                readFileLength(pathLib.join(workingDir, errorFileName), Cfg.stderrDisplayLimit)
+            ]);
+            try {
+                await fse.move(pathLib.join(workingDir, outputFileName), pathLib.join(spjWorkingDir, 'output'), { overwrite: true });
+            } catch (e) {
+                if (e.code === 'ENOENT' && status === null) {
+                    status = TestcaseResultType.FileError;
+                }
+            }
+            if (status !== null) {
+                return getResult(status, null);
+            }
+
+            if (index === task.phases.length - 1) {
+                break;
+            } else if (managerBinDir != null) {
+                winston.debug(`Running manager after phase ${index + 1}...`);
+                const managerResult = await runManager(managerBinDir, managerLanguage, index + 1);
+                if (managerResult.status !== null) {
+                    return getResult(managerResult.status, managerResult.message);
+                }
             } else {
-                winston.debug(`Running diff`);
-                const diffResult = await runDiff(spjWorkingDir, 'user_out', 'answer');
-                winston.debug('Judgement done!!');
-                return Object.assign({
-                    scoringRate: diffResult.pass ? 1 : 0,
-                    spjMessage: diffResult.message,
-                    result: diffResult.pass ? TestcaseResultType.Accepted : TestcaseResultType.WrongAnswer,
-                }, partialResult);
+                await fse.move(pathLib.join(spjWorkingDir, 'output'), pathLib.join(spjWorkingDir, 'next_input'), { overwrite: true });
             }
         }
+
+        await fse.move(pathLib.join(spjWorkingDir, 'output'), pathLib.join(spjWorkingDir, 'user_out'), { overwrite: true });
+        return Object.assign(getResult(null, null), await checkUserOutput(task, inputFilePath, answerFilePath, userCode));
     } finally {
         tryEmptyDir(workingDir);
         tryEmptyDir(spjWorkingDir);
     }
 }
 
+// Working directory of the i-th user process of an interaction problem.
+function getUserWorkingDir(index: number): string {
+    return index === 0 ? workingDir : `${workingDir}-${index}`;
+}
+
+function execFile(file: string, args: string[]): Promise<void> {
+    return new Promise<void>((res, rej) => {
+        child_process.execFile(file, args, err => {
+            if (err) {
+                rej(err);
+            } else {
+                res();
+            }
+        });
+    });
+}
+
+// Creates named pipes `user<i>.in` (from the interactor to the i-th user process) and `user<i>.out`
+// (the other way round) in the spj working directory, which the interactor gets as its arguments.
+// They are opened read-write, so that opening them on neither side blocks.
+async function createInteractionFifos(processes: number): Promise<{ names: string[], fds: number[] }> {
+    const names = _.flatten(_.range(processes).map(i => [`user${i}.in`, `user${i}.out`]));
+    await execFile('mkfifo', ['-m', '666'].concat(names.map(n => pathLib.join(spjWorkingDir, n))));
+    const fds: number[] = [];
+    for (const name of names) {
+        fds.push(await fse.open(pathLib.join(spjWorkingDir, name), 'r+'));
+    }
+    return { names: names, fds: fds };
+}
+
 export async function judgeInteraction(task: InteractionRunTask)
-    : Promise<StandardRunResult> {
-    let pipe1 = null, pipe2 = null;
+    : Promise<InteractionRunResult> {
+    let fds: number[] = [], transcript: InteractionTranscript = null;
+    const processes = task.processes || 1;
     try {
         const testDataPath = pathLib.join(Cfg.testDataDirectory, task.testDataName);
         const inputFilePath = task.inputData != null ?
@@ -269,7 +624,7 @@ export async function judgeInteraction(task: InteractionRunTask)
             pathLib.join(testDataPath, task.answerData) : null;
 
         winston.debug("Creating directories...");
-        await Promise.all([createOrEmptyDir(workingDir), createOrEmptyDir(spjWorkingDir)]);
+        await Promise.all(_.range(processes).map(i => createOrEmptyDir(getUserWorkingDir(i))).concat([createOrEmptyDir(spjWorkingDir)]));
 
         const tempErrFile = randomString.generate(10) + ".err";
 
@@ -281,6 +636,12 @@ export async function judgeInteraction(task: InteractionRunTask)
             await fse.copy(answerFilePath,
                 pathLib.join(spjWorkingDir, 'answer'));
         }
+        const testlib = task.interactorProtocol === SpecialJudgeProtocol.Testlib;
+        if (testlib) {
+            // Testlib fails to open missing files.
+            await fse.ensureFile(pathLib.join(spjWorkingDir, 'input'));
+            await fse.ensureFile(pathLib.join(spjWorkingDir, 'answer'));
+        }
 
         await fse.writeFile(pathLib.join(spjWorkingDir, 'code'), task);
 
@@ -289,32 +650,69 @@ export async function judgeInteraction(task: InteractionRunTask)
         winston.debug("Fetching interactor binary...");
         const [interactorBinaryDirectory, interactorLanguage] = await fetchBinary(task.interactorExecutableName);
 
-        pipe1 = syspipe.pipe(),
-            pipe2 = syspipe.pipe();
+        // [stdin, stdout] of each user process, and of the interactor.
+        let userStdio: [number, number][], interactorStdio: [number, number];
+        let interactorArgs: string[] = testlib ? ['input', 'tout', 'answer'] : [];
+        if (task.connection === InteractionConnection.Fifo) {
+            const fifos = await createInteractionFifos(processes);
+            fds = fds.concat(fifos.fds);
+            userStdio = _.range(processes).map(i => [fifos.fds[i * 2], fifos.fds[i * 2 + 1]] as [number, number]);
+            interactorStdio = [null, null];
+            interactorArgs = interactorArgs.concat(fifos.names);
+        } else {
+            const pipe1 = syspipe.pipe(),
+                pipe2 = syspipe.pipe();
+            fds.push(pipe1.read, pipe1.write, pipe2.read, pipe2.write);
+            userStdio = [[pipe1.read, pipe2.write]];
+            interactorStdio = [pipe2.read, pipe1.write];
+        }
+
+        if (task.transcript) {
+            // The user's program is connected to new pipes instead, between which and the interactor data is relayed.
+            transcript = new InteractionTranscript(Cfg.dataDisplayLimit);
+            userStdio = userStdio.map(([stdin, stdout], index) => {
+                const userName = processes > 1 ? `user${index}` : 'user';
+                const input = syspipe.pipe(), output = syspipe.pipe();
+                fds.push(input.read, input.write, output.read, output.write);
+                transcript.relay(stdin, input.write, `interactor -> ${userName}`);
+                transcript.relay(output.read, stdout, `${userName} -> interactor`);
+                return [input.read, output.write] as [number, number];
+            });
+        }
 
-        const [userProgramTaskPromise, stopUser] = await runProgram(userLanguage,
+        // Each user process has the same limits, and gets its index as the argument if there are more than one.
+        const userPrograms = await Promise.all(userStdio.map(([stdin, stdout], index) => runProgram(userLanguage,
             userBinaryDirectory,
-            workingDir,
+            getUserWorkingDir(index),
             task.time,
             task.memory * 1024 * 1024,
-            pipe1.read,
-            pipe2.write,
-            tempErrFile);
+            stdin,
+            stdout,
+            tempErrFile,
+            processes > 1 ? [String(index)] : [])));
+        const stopUsers = () => userPrograms.forEach(([, stopUser]) => stopUser());
 
         const [interactorTaskPromise] = await runProgram(interactorLanguage,
             interactorBinaryDirectory,
             spjWorkingDir,
-            task.time * 2,
-            task.memory * 1024 * 1024,
-            pipe2.read,
-            pipe1.write,
-            tempErrFile);
+            task.interactorTime || task.time * 2,
+            (task.interactorMemory || task.memory) * 1024 * 1024,
+            interactorStdio[0],
+            interactorStdio[1],
+            tempErrFile,
+            interactorArgs);
 
-        const [interactorResult, runResult] = await Promise.all([interactorTaskPromise
-            .then((result) => { stopUser(); return result; }, (err) => { stopUser(); return Promise.reject(err); }), userProgramTaskPromise]);
+        const [interactorResult, runResults] = await Promise.all([interactorTaskPromise
+            .then((result) => { stopUsers(); return result; }, (err) => { stopUsers(); return Promise.reject(err); }),
+            Promise.all(userPrograms.map(([userProgramTaskPromise]) => userProgramTaskPromise))]);
 
-        const time = Math.round(runResult.result.time / 1e6),
-            memory = runResult.result.memory / 1024;
+        // The maximum usage among all user processes is reported.
+        const time = _.max(runResults.map(r => Math.round(r.result.time / 1e6))),
+            memory = _.max(runResults.map(r => r.result.memory / 1024));
+
+        // The first user process that did not exit normally decides the verdict.
+        const runResult = runResults.find(r => r.outputLimitExceeded ||
+            ![SandboxStatus.OK, SandboxStatus.Cancelled].includes(r.result.status)) || runResults[0];
 
         let status: TestcaseResultType = null, message = null;
         if (runResult.outputLimitExceeded) {
@@ -344,17 +742,39 @@ export async function judgeInteraction(task: InteractionRunTask)
                 status = TestcaseResultType.JudgementFailed;
             }
         }
+        // The stderr of each user process is shown, sharing the display limit.
+        const userErrors = await Promise.all(_.range(processes).map(i => readFileLength(
+            pathLib.join(getUserWorkingDir(i), tempErrFile), Math.floor(Cfg.stderrDisplayLimit / processes))));
+        const userError = processes === 1 ? userErrors[0]
+            : userErrors.map((e, i) => e ? `[user${i}]\n${e}` : null).filter(e => e != null).join('\n') || null;
         const partialResult = {
             time: time,
-            memory: time,
+            memory: memory,
+            interactorTime: Math.round(interactorResult.result.time / 1e6),
+            interactorMemory: interactorResult.result.memory / 1024,
             userOutput: null,
-            userError: await readFileLength(pathLib.join(workingDir, tempErrFile), Cfg.stderrDisplayLimit),
+            userError: userError,
             spjMessage: await readFileLength(pathLib.join(spjWorkingDir, tempErrFile), Cfg.stderrDisplayLimit)
         };
 
         // If interactor exited normally
         let score = 0;
-        if (status == null) {
+        if (status == null && testlib) {
+            let testlibResult: { scoringRate: number, spjMessage: string, result: TestcaseResultType } = null;
+            const verdict = parseTestlibResult(interactorResult.result.code, partialResult.spjMessage, 'Interactor');
+            if (verdict.status === TestcaseResultType.Accepted && task.spjExecutableName != null) {
+                // The checker judges the output of the interactor instead.
+                // As in testlib, any other verdict of the interactor is final, partial points included.
+                await fse.ensureFile(pathLib.join(spjWorkingDir, 'tout'));
+                await fse.move(pathLib.join(spjWorkingDir, 'tout'), pathLib.join(spjWorkingDir, 'user_out'), { overwrite: true });
+                testlibResult = await checkUserOutput(task, inputFilePath, answerFilePath, userCode);
+            } else {
+                testlibResult = { scoringRate: verdict.score, spjMessage: verdict.message, result: verdict.status };
+            }
+            score = testlibResult.scoringRate * spjFullScore;
+            status = testlibResult.result;
+            partialResult.spjMessage = testlibResult.spjMessage;
+        } else if (status == null) {
             const scoreString = await tryReadFile(spjWorkingDir + '/score.txt');
             const rawScore = Number(scoreString);
             if ((!scoreString) || isNaN(rawScore)) {
@@ -369,23 +789,30 @@ export async function judgeInteraction(task: InteractionRunTask)
             }
         }
         winston.debug(`Interaction problem judge succeeded, score = ${score}`);
+        // The transcript is complete only after it is closed.
+        if (transcript) {
+            await transcript.close();
+        }
         return Object.assign(partialResult, {
             result: status,
             scoringRate: score / spjFullScore,
-            systemMessage: message
+            systemMessage: message,
+            interactionLog: transcript && transcript.toString()
         });
     } finally {
-        const closePipe = async (p) => {
+        if (transcript) {
+            // Only closed here if judging failed before the result was built.
+            await transcript.close();
+            fds = _.difference(fds, transcript.fds);
+        }
+        for (const fd of fds) {
             try {
-                if (p) {
-                    await fse.close(p.read);
-                    await fse.close(p.write);
-                }
+                await fse.close(fd);
             } catch (e) { }
         }
-        await closePipe(pipe1);
-        await closePipe(pipe2);
         await tryEmptyDir(spjWorkingDir);
-        await tryEmptyDir(workingDir);
+        for (let index = 0; index < processes; index++) {
+            await tryEmptyDir(getUserWorkingDir(index));
+        }
     }
 }
@@ -10,6 +10,7 @@ import { SandboxProcess } from 'simple-sandbox/lib/sandboxProcess';
 import { globalConfig as Cfg } from './config';
 import { createOrEmptyDir, sandboxize, setWriteAccess } from './utils';
 import { Language } from '../languages';
+import { describeFirstLineDifference } from './difference';
 
 export interface RunResult {
     outputLimitExceeded: boolean;
@@ -21,6 +22,7 @@ export interface DiffResult {
     message: string;
 }
 
+// `file1' is regarded as the user output and `file2' as the answer when describing differences.
 export async function runDiff(dataDir: string, file1: string, file2: string): Promise<DiffResult> {
     await setWriteAccess(dataDir, true);
     const tmpPath = '/sandbox/1', outputFileName = 'diff.txt';
@@ -47,7 +49,43 @@ export async function runDiff(dataDir: string, file1: string, file2: string): Pr
     }
 
     const message = await fse.readFile(pathLib.join(dataDir, outputFileName), 'utf8');
-    return { pass: sandboxResult.code === 0, message: message };
+    if (sandboxResult.code === 0) {
+        return { pass: true, message: message };
+    }
+
+    // Exit code 2 means trouble, e.g. a missing file, in which case there is nothing to describe.
+    if (sandboxResult.code !== 1) {
+        return { pass: false, message: message };
+    }
+
+    // The output of `diff -q' is useless to users, so find out the first difference by ourselves.
+    const [prefix1, prefix2] = await Promise.all([
+        readLinesPrefix(pathLib.join(dataDir, file1), diffReadLimit),
+        readLinesPrefix(pathLib.join(dataDir, file2), diffReadLimit)
+    ]);
+    return {
+        pass: false,
+        message: describeFirstLineDifference(prefix1.content, prefix2.content, prefix1.truncated, prefix2.truncated) || message
+    };
+}
+
+// Only this many bytes of each file are read when looking for the first difference,
+// so that a huge output doesn't have to be loaded into memory.
+const diffReadLimit = 4 * 1024 * 1024;
+
+// Reads at most `lengthLimit` bytes of the file, dropping the last line if it is cut off.
+async function readLinesPrefix(path: string, lengthLimit: number): Promise<{ content: string, truncated: boolean }> {
+    const file = await fse.open(path, 'r');
+    try {
+        const buf = new Buffer(lengthLimit + 1);
+        const bytesRead = await fse.read(file, buf, 0, buf.length, 0) as any as number;
+        if (bytesRead <= lengthLimit) {
+            return { content: buf.toString('utf8', 0, bytesRead), truncated: false };
+        }
+        return { content: buf.toString('utf8', 0, buf.lastIndexOf(0x0a, lengthLimit - 1) + 1), truncated: true };
+    } finally {
+        await fse.close(file);
+    }
 }
 
 export async function runProgram(language: Language,
@@ -57,7 +95,9 @@ export async function runProgram(language: Language,
     memory: number,
     stdinFile?: string | number,
     stdoutFile?: string | number,
-    stderrFile?: string | number): Promise<[Promise<RunResult>, () => void]> {
+    stderrFile?: string | number,
+    args: string[] = [],
+    outputLimit: number = Cfg.outputLimit): Promise<[Promise<RunResult>, () => void]> {
 
     await setWriteAccess(binDir, false);
     await setWriteAccess(dataDir, true);
@@ -65,6 +105,11 @@ export async function runProgram(language: Language,
     const dataDir_Sandbox = '/sandbox/1';
     const binDir_Sandbox = '/sandbox/2';
     const runConfig = language.run(binDir_Sandbox, dataDir_Sandbox, time, memory, stdinFile, stdoutFile, stderrFile);
+    if (args.length) {
+        // Some languages leave argv[0] empty, which must be filled before appending arguments.
+        const argv0 = runConfig.parameters.length ? runConfig.parameters : [runConfig.executable];
+        runConfig.parameters = argv0.concat(args);
+    }
 
     const sandboxParam = sandboxize(runConfig, [{
         src: binDir,
@@ -83,7 +128,7 @@ export async function runProgram(language: Language,
 
         let ole = false;
         const outputSize = await getSize(dataDir);
-        if (outputSize > Cfg.outputLimit) {
+        if (outputSize > outputLimit) {
             await fse.emptyDir(dataDir);
             ole = true;
         }
@@ -0,0 +1,97 @@
+import net = require('net');
+import { StringDecoder, NodeStringDecoder } from 'string_decoder';
+import { fileTooLongPrompt } from '../utils';
+
+// Data still in the pipes when the programs have exited is waited for, until none arrives for this long (in ms).
+const drainQuietTime = 50, drainMaxTime = 1000;
+
+interface TranscriptEntry {
+    time: number;
+    direction: string;
+    data: Buffer;
+}
+
+// Relays data between the interactor and the user's program, recording what is passed in both directions.
+// The relay runs in the runner itself, so it is not counted in the time of either program.
+export class InteractionTranscript {
+    private startTime = Date.now();
+    // Kept as raw data, as a multibyte character may be split across chunks.
+    private entries: TranscriptEntry[] = [];
+    private length = 0;
+    private omitted = 0;
+    private chunksReceived = 0;
+    private sockets: net.Socket[] = [];
+    private closed: Promise<void>[] = [];
+    private closing: Promise<void> = null;
+    fds: number[] = []; // Closed by the transcript when it is closed
+
+    constructor(private lengthLimit: number) {
+    }
+
+    private record(direction: string, data: Buffer) {
+        this.chunksReceived++;
+        const entry = { time: Date.now() - this.startTime, direction: direction, data: data };
+        if (this.omitted === 0 && this.length + data.length <= this.lengthLimit) {
+            this.entries.push(entry);
+            this.length += data.length;
+        } else {
+            this.omitted += data.length;
+        }
+    }
+
+    // Copies everything read from `from` to `to`, both of which must be pipes.
+    relay(from: number, to: number, direction: string) {
+        const source = new net.Socket({ fd: from, readable: true, writable: false }),
+            destination = new net.Socket({ fd: to, readable: false, writable: true });
+        // Either side may be closed by the programs at any time.
+        source.on('error', () => { });
+        destination.on('error', () => { });
+        source.on('data', (data: Buffer) => this.record(direction, data));
+        source.pipe(destination);
+        for (const socket of [source, destination]) {
+            this.sockets.push(socket);
+            this.closed.push(new Promise<void>(res => socket.once('close', () => res())));
+        }
+        this.fds.push(from, to);
+    }
+
+    // Should be called after the programs have exited, so that everything they wrote is recorded.
+    // Closing again does not wait for the pipes to drain again.
+    close(): Promise<void> {
+        if (this.closing == null) {
+            this.closing = this.drainAndClose();
+        }
+        return this.closing;
+    }
+
+    private async drainAndClose(): Promise<void> {
+        const drainStartTime = Date.now();
+        let chunksReceived: number;
+        do {
+            chunksReceived = this.chunksReceived;
+            await new Promise(res => setTimeout(res, drainQuietTime));
+        } while (chunksReceived !== this.chunksReceived && Date.now() - drainStartTime < drainMaxTime);
+
+        for (const socket of this.sockets) {
+            socket.destroy();
+        }
+        await Promise.all(this.closed);
+    }
+
+    toString(): string {
+        // Each direction is a separate stream, so each of them is decoded separately.
+        const decoders = new Map<string, NodeStringDecoder>();
+        let content = '';
+        for (const entry of this.entries) {
+            if (!decoders.has(entry.direction)) {
+                decoders.set(entry.direction, new StringDecoder('utf8'));
+            }
+            content += `[${entry.time}ms] ${entry.direction}\n` + decoders.get(entry.direction).write(entry.data)
+                + (entry.data[entry.data.length - 1] === 0x0a ? '' : '\n');
+        }
+        if (this.omitted === 0) {
+            return content;
+        }
+        return content + fileTooLongPrompt(this.length + this.omitted, this.length);
+    }
+}
@@ -3,9 +3,14 @@ import * as pathLib from 'path';
 import util = require('util');
 import sha256 = require('crypto-js/sha256');
 import nodeStream = require('stream');
+import { FileContent } from './interfaces';
 
-export function codeFingerprint(code: string, language: string): string {
-    return "src-" + language + sha256(code);
+// Extra files (e.g. a grader) and the name of the source file are a part of the program too.
+export function codeFingerprint(code: string, language: string, extraFiles: FileContent[] = [], sourceFileName: string = null): string {
+    if (extraFiles.length === 0 && sourceFileName == null) {
+        return "src-" + language + sha256(code);
+    }
+    return "src-" + language + sha256(JSON.stringify([code, extraFiles, sourceFileName]));
 }
 
 export function streamToBuffer(source: nodeStream.Readable): Promise<Buffer> {